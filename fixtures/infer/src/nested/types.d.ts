@@ -0,0 +1 @@
+export declare function ignored(a:number):number;
@@ -0,0 +1,15 @@
+export const double = (n: number) => n * 2
+
+export function clamp (value: number, min: number, max: number): number {
+  if (value < min) {
+    return min
+  }
+  else if (value > max) {
+    return max
+  }
+  return value
+}
+
+export function sum (...values: number[]): number {
+  return values.reduce((a, b) => a + b, 0)
+}
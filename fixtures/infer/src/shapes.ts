@@ -0,0 +1,23 @@
+export interface Shape {
+  area (): number
+}
+
+export class Circle implements Shape {
+  constructor (private radius: number) {
+  }
+
+  area (): number {
+    if (this.radius < 0) {
+      throw new Error('Negative radius')
+    }
+    return Math.PI * this.radius * this.radius
+  }
+}
+
+export function totalArea (shapes: Shape[]): number {
+  let total = 0
+  for (let i = 0; i < shapes.length; i++) {
+    total += shapes[i].area()
+  }
+  return total
+}
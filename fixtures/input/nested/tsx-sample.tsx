@@ -0,0 +1 @@
+export const Greeting = (props: {name: string}) => <div className="greeting">Hello {props.name}</div>;
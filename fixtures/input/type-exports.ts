@@ -0,0 +1,14 @@
+export interface Shape {
+	area(): number;
+}
+
+export class Circle implements Shape {
+	constructor(public radius: number) {
+	}
+
+	area() {
+		return Math.PI * this.radius * this.radius;
+	}
+}
+
+export const unit = 1;
@@ -0,0 +1,6 @@
+module.exports = {
+	placeOpenBraceOnNewLineForFunctions: true,
+	placeOpenBraceOnNewLineForControlBlocks: false,
+	insertSpaceBeforeFunctionParenthesis: true,
+	semicolons: 'insert'
+};
@@ -0,0 +1,4 @@
+module.exports = {
+	placeOpenBraceOnNewLineForFunctions: true,
+	overrides: [{files: '*.spec.ts', options: {placeOpenBraceOnNewLineForFunctions: false}}]
+};
@@ -0,0 +1,10 @@
+#!/usr/bin/env node
+/*
+This is a simple bootloader used during development to run the ts-pretty command line straight from the sources.
+In production, this file is never used because ./src/bin.ts is webpacked into the dist root as cli.js.
+ */
+require('source-map-support');
+require('ts-node').register({
+	"transpileOnly": true
+});
+require('../src/bin');
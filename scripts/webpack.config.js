@@ -1,15 +1,28 @@
 const path = require('path');
+const webpack = require('webpack');
 const nodeExternals = require('webpack-node-externals');
 
 const tsConfig = './tsconfig.app.json';
 
+/**
+ * The cli requires the plugin's own build (dist/index.js), rather than bundling a second copy of src/index.ts (with its own project and tsconfig caches).
+ */
+function sharedIndex({context, request}, callback) {
+	if (request === './index' && context === path.resolve('src'))
+		return callback(null, 'commonjs ./index');
+	callback();
+}
+
 module.exports = {
-	entry: './src/index.ts',
+	entry: {
+		index: './src/index.ts',
+		cli: './src/bin.ts'
+	},
 	mode: 'production',
 	// devtool: 'inline-source-map',
 	output: {
 		path: path.resolve('dist'),
-		filename: 'index.js',
+		filename: '[name].js',
 		library: {
 			type: 'commonjs',
 		},
@@ -33,11 +46,12 @@ module.exports = {
 			}]
 	},
 	plugins: [
+		new webpack.BannerPlugin({banner: '#!/usr/bin/env node', raw: true, include: 'cli.js'})
 	],
 	externalsPresets: {
 		node: true
 	},
-	externals: [nodeExternals({
+	externals: [sharedIndex, nodeExternals({
 		allowlist: ['json5', 'lodash/cloneDeep', 'lodash/merge', 'tslib', 'uuid']
 	})],
 	resolve: {
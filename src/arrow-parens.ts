@@ -0,0 +1,85 @@
+import ts from 'typescript';
+
+/**
+ * Transformer which adds (prettier 'always') or removes (prettier 'avoid') the parentheses around the sole parameter of an arrow function.
+ * NOTE:
+ *  ts.Printer has no option for this.  It omits the parentheses only when the parameter starts at the same position as the arrow function itself (which is what the parser produces for 'x => x').
+ *  So we replace the parameter with one positioned accordingly.
+ *  ts.Printer always prints the parentheses of an async arrow function, so those are removed afterwards by @see asyncArrowParensEdits
+ */
+export function arrowParensTransformer(arrowParens: 'always' | 'avoid', sourceFile: ts.SourceFile): ts.TransformerFactory<ts.Node> {
+	return context => {
+		const {factory} = context;
+
+		function visit(node: ts.Node): ts.Node {
+			node = ts.visitEachChild(node, visit, context);
+			if (!ts.isArrowFunction(node) || !isSimpleArrowHead(node) || isAsync(node))
+				return node;
+			const param = node.parameters[0];
+			const hasParens = param.pos !== node.pos;
+			let newParam: ts.ParameterDeclaration;
+			if (arrowParens === 'avoid' && hasParens) {
+				// Removing the parentheses would also remove any comments inside them.
+				if (sourceFile.text.substring(param.pos, node.equalsGreaterThanToken.pos).includes('/'))
+					return node;
+				newParam = ts.setTextRange(factory.createParameterDeclaration(undefined, undefined, param.name), {pos: node.pos, end: param.end});
+			}
+			else if (arrowParens === 'always' && !hasParens)
+				newParam = factory.createParameterDeclaration(undefined, undefined, param.name);
+			else
+				return node;
+			ts.setOriginalNode(newParam, param);
+			return factory.updateArrowFunction(
+				node,
+				node.modifiers,
+				node.typeParameters,
+				ts.setTextRange(factory.createNodeArray([newParam]), node.parameters),
+				node.type,
+				node.equalsGreaterThanToken,
+				node.body
+			);
+		}
+
+		return visit;
+	};
+}
+
+/**
+ * Remove the parentheses (prettier 'avoid') around the sole parameter of each async arrow function in the (printed) source file.
+ *
+ * @param spans If specified, only arrow functions which start within these spans are considered.
+ */
+export function asyncArrowParensEdits(sourceFile: ts.SourceFile, spans?: ts.TextRange[]): ts.TextChange[] {
+	const result: ts.TextChange[] = [];
+	const text = sourceFile.text;
+
+	function visit(node: ts.Node): void {
+		if (ts.isArrowFunction(node) && isAsync(node) && isSimpleArrowHead(node)) {
+			const start = node.getStart(sourceFile);
+			const open = node.getChildren(sourceFile).find(child => child.kind === ts.SyntaxKind.OpenParenToken);
+			const close = node.getChildren(sourceFile).find(child => child.kind === ts.SyntaxKind.CloseParenToken);
+			const name = (node.parameters[0].name as ts.Identifier).text;
+			// Anything else between the parentheses (e.g. a comment) would be lost.
+			if (open && close && (!spans || spans.some(s => s.pos <= start && start < s.end)) && text.substring(open.end, close.pos).trim() === name)
+				result.push({span: {start: open.getStart(sourceFile), length: close.end - open.getStart(sourceFile)}, newText: name});
+		}
+		ts.forEachChild(node, visit);
+	}
+
+	visit(sourceFile);
+	return result;
+}
+
+/**
+ * True if the arrow function could be written without parentheses around its parameter (e.g. the parameter has no type, initializer, etc.).
+ */
+function isSimpleArrowHead(node: ts.ArrowFunction): boolean {
+	if (node.parameters.length !== 1 || node.type || node.modifiers?.some(m => m.kind !== ts.SyntaxKind.AsyncKeyword) || node.typeParameters?.length)
+		return false;
+	const param = node.parameters[0];
+	return !param.modifiers?.length && !param.dotDotDotToken && !param.questionToken && !param.type && !param.initializer && ts.isIdentifier(param.name);
+}
+
+function isAsync(node: ts.ArrowFunction): boolean {
+	return !!node.modifiers?.some(m => m.kind === ts.SyntaxKind.AsyncKeyword);
+}
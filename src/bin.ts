@@ -0,0 +1,13 @@
+/**
+ * The ts-pretty command (@see runCli), or its daemon (@see runDaemon) and the client of that daemon (@see runClient).
+ */
+import {runCli} from './cli';
+import {runClient, runDaemon} from './daemon';
+
+const args = process.argv.slice(2);
+if (args.includes('--daemon'))
+	runDaemon(args).then(code => process.exitCode = code);
+else if (args.includes('--client'))
+	runClient(args).then(code => process.exitCode = code);
+else
+	process.exitCode = runCli(args);
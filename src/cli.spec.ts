@@ -0,0 +1,55 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {CliIO, runCli} from './cli';
+
+describe('runCli', () => {
+	let dir: string;
+	let output: { stdout: string, stderr: string };
+	let io: CliIO;
+	const unformatted = 'function foo( a:number ) {\nreturn a+1\n}\n';
+	const formatted = 'function foo(a: number) {\n\treturn a + 1;\n}\n';
+
+	beforeEach(() => {
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tsp-'));
+		fs.writeFileSync(path.join(dir, 'bad.ts'), unformatted);
+		fs.writeFileSync(path.join(dir, 'good.ts'), formatted);
+		output = {stdout: '', stderr: ''};
+		io = {
+			stdout: text => output.stdout += text,
+			stderr: text => output.stderr += text,
+			readStdin: () => unformatted
+		};
+	});
+
+	afterEach(() => {
+		fs.rmSync(dir, {recursive: true, force: true});
+	});
+
+	it('should check and list the files which are not formatted', () => {
+		expect(runCli(['--check', '--tsconfig', 'ignore', dir], io)).toEqual(1);
+		expect(output.stderr).toContain(`[warn] ${path.relative(path.resolve('./'), path.join(dir, 'bad.ts'))}\n`);
+		expect(output.stderr).not.toContain('good.ts');
+		expect(output.stderr).toContain('Code style issues found in 1 file.');
+		output.stdout = '';
+		expect(runCli(['-l', '--tsconfig=ignore', dir], io)).toEqual(1);
+		expect(output.stdout).toEqual(path.relative(path.resolve('./'), path.join(dir, 'bad.ts')) + '\n');
+		expect(runCli(['--check', '--tsconfig', 'ignore', path.join(dir, 'good.ts')], io)).toEqual(0);
+	});
+
+	it('should print a diff, or write the files', () => {
+		expect(runCli(['--diff', '--tsconfig', 'ignore', path.join(dir, 'bad.ts')], io)).toEqual(1);
+		expect(output.stdout).toContain('-return a+1\n+function foo(a: number) {\n+\treturn a + 1;\n');
+		expect(runCli(['--write', '--tsconfig', 'ignore', dir], io)).toEqual(0);
+		expect(fs.readFileSync(path.join(dir, 'bad.ts'), 'utf8')).toEqual(formatted);
+	});
+
+	it('should format stdin, using the formatting options', () => {
+		expect(runCli(['--tsconfig', 'ignore', '--no-semi', '--tsp-preset', 'vscode', '--use-tabs=false', '--tab-width', '2'], io)).toEqual(0);
+		expect(output.stdout).toEqual('function foo(a: number) {\n  return a + 1\n}\n');
+		expect(runCli(['--tsp-mode', 'sideways'], io)).toEqual(2);
+		expect(output.stderr).toContain('--tsp-mode must be one of reprint, whitespace');
+		expect(runCli(['--no-such-option'], io)).toEqual(2);
+		expect(output.stderr).toContain('Unknown option --no-such-option');
+	});
+});
@@ -0,0 +1,321 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import ts from 'typescript';
+import {unifiedDiff} from './diff';
+import {FormatTextOptions, formatText, options as pluginOptions} from './index';
+import {findSourceFiles} from './source-files';
+
+/**
+ * Where the command line writes its output (and reads stdin from), so that it can be exercised without a real process.
+ */
+export interface CliIO {
+	stdout(text: string): void;
+	stderr(text: string): void;
+	readStdin(): string;
+}
+
+export const ProcessIO: CliIO = {
+	stdout: text => process.stdout.write(text),
+	stderr: text => process.stderr.write(text),
+	readStdin: () => fs.readFileSync(0, 'utf8')
+};
+
+/**
+ * The prettier options the command line accepts (besides every ts-pretty option, @see options), in the same 'kebab-case' prettier's own command line uses.
+ */
+const PrettierOptions: Record<string, 'boolean' | 'int' | string[]> = {
+	printWidth: 'int',
+	tabWidth: 'int',
+	useTabs: 'boolean',
+	semi: 'boolean',
+	singleQuote: 'boolean',
+	jsxSingleQuote: 'boolean',
+	quoteProps: ['as-needed', 'consistent', 'preserve'],
+	trailingComma: ['none', 'es5', 'all'],
+	bracketSpacing: 'boolean',
+	arrowParens: ['always', 'avoid'],
+	endOfLine: ['lf', 'crlf', 'cr', 'auto'],
+	embeddedLanguageFormatting: ['auto', 'off']
+};
+
+const Usage = `Usage: ts-pretty [options] [file/dir ...]
+
+Formats the files (and the source files within the directories) using the TypeScript Compiler API, without prettier.
+Without any files, stdin is formatted.
+
+Output options:
+  --write                 Write the formatted files back in place (listing those which changed).
+  --check                 List the files which are not formatted, and exit with 1 if there are any.
+  -l, --list-different    Print the names of the files which are not formatted, and exit with 1 if there are any.
+  --diff                  Print a unified diff of the formatting changes, and exit with 1 if there are any.
+  --stdin-filepath <path> The path of the file stdin is the content of.
+  --range-start <offset>  Only format the statements overlapping the range starting at this offset (of stdin, or a single file).
+  --range-end <offset>    Only format the statements overlapping the range ending at this offset (of stdin, or a single file).
+
+Formatting options:
+  --tsconfig <path>       Same as --tsp-ts-config.
+  --organize-imports      Same as --tsp-organize-imports.
+  --<option> <value>      Any ts-pretty option (e.g. --tsp-preset vscode, --tsp-mode whitespace), or one of
+                          --print-width, --tab-width, --use-tabs, --semi, --single-quote, --jsx-single-quote, --quote-props,
+                          --trailing-comma, --bracket-spacing, --arrow-parens, --end-of-line, --embedded-language-formatting.
+                          A boolean option may be given as --<option>, --<option>=false or --no-<option>.
+
+Daemon options:
+  --daemon                Keep running, formatting the requests (one JSON object per line) sent to the socket (@see --socket),
+                          and keeping the TypeScript projects of the files it formats loaded in between.
+  --stdio                 With --daemon, read the requests from stdin (and write the responses to stdout) instead of a socket.
+  --client                Format stdin via the daemon listening on the socket (starting it if it is not running).
+  --socket <path>         The socket the daemon listens on (defaults to one in $XDG_RUNTIME_DIR, or the user's cache directory).
+
+Exit codes: 0 success, 1 unformatted files (with --check, --list-different or --diff), 2 errors.
+`;
+
+/**
+ * Run the ts-pretty command line.
+ *
+ * @param args  The command line arguments (i.e. without the node executable and script).
+ * @returns The exit code.
+ */
+export function runCli(args: string[], io: CliIO = ProcessIO): number {
+	let parsed: ParsedArgs;
+	try {
+		parsed = parseArgs(args);
+	}
+	catch (err) {
+		io.stderr(`[error] ${(err as Error).message}\n\n${Usage}`);
+		return 2;
+	}
+	if (parsed.help) {
+		io.stdout(Usage);
+		return 0;
+	}
+	const {write, check, listDifferent, diff} = parsed;
+	const range = parsedRange(parsed);
+	let unformatted = 0;
+	let failed = false;
+
+	function formatOne(fileName: string | undefined, text: string, displayName: string): void {
+		let formatted: string;
+		try {
+			formatted = formatText(text, {...parsed.formatOptions, fileName, range}).text;
+		}
+		catch (err) {
+			io.stderr(`[error] ${displayName}: ${(err as Error).message}\n`);
+			failed = true;
+			return;
+		}
+		const changed = formatted !== text;
+		if (changed)
+			unformatted++;
+		if (check && changed)
+			io.stderr(`[warn] ${displayName}\n`);
+		if (listDifferent && changed)
+			io.stdout(displayName + '\n');
+		if (diff && changed)
+			io.stdout(unifiedDiff(text, formatted, displayName.split(path.sep).join('/')));
+		if (write) {
+			if (changed && fileName) {
+				fs.writeFileSync(fileName, formatted);
+				if (!listDifferent)
+					io.stdout(displayName + '\n');
+			}
+			else if (!fileName)
+				io.stdout(formatted);
+		}
+		else if (!check && !listDifferent && !diff)
+			io.stdout(formatted);
+	}
+
+	if (range && parsed.files.length > 1) {
+		io.stderr(`[error] --range-start and --range-end can only be used with a single file\n`);
+		return 2;
+	}
+	if (parsed.files.length === 0)
+		formatOne(parsed.stdinFilepath, io.readStdin(), parsed.stdinFilepath ?? '<stdin>');
+	else {
+		let files: string[];
+		try {
+			files = findSourceFiles(parsed.files);
+		}
+		catch (err) {
+			io.stderr(`[error] ${(err as Error).message}\n`);
+			return 2;
+		}
+		files.forEach(file => formatOne(file, fs.readFileSync(file, 'utf8'), path.relative(path.resolve('./'), file)));
+	}
+	if (check) {
+		if (unformatted > 0)
+			io.stderr(`[warn] Code style issues found in ${unformatted} file${unformatted === 1 ? '' : 's'}.${write ? '' : ' Run ts-pretty with --write to fix.'}\n`);
+		else if (!failed)
+			io.stdout('All matched files are formatted.\n');
+	}
+	if (failed)
+		return 2;
+	return unformatted > 0 && !write && (check || listDifferent || diff) ? 1 : 0;
+}
+
+/**
+ * The command line arguments (@see parseArgs).
+ */
+export interface ParsedArgs {
+	help: boolean;
+	write: boolean;
+	check: boolean;
+	listDifferent: boolean;
+	diff: boolean;
+	daemon: boolean;
+	stdio: boolean;
+	client: boolean;
+	socket?: string;
+	stdinFilepath?: string;
+	rangeStart?: number;
+	rangeEnd?: number;
+	files: string[];
+	formatOptions: FormatTextOptions;
+}
+
+/**
+ * Parse the command line arguments, converting the values of formatting options according to their declared type.
+ *
+ * @throws Error if an option is unknown, or its value is invalid.
+ */
+export function parseArgs(args: string[]): ParsedArgs {
+	const result: ParsedArgs = {help: false, write: false, check: false, listDifferent: false, diff: false, daemon: false, stdio: false, client: false, files: [], formatOptions: {}};
+	const formatOptions = result.formatOptions as Record<string, unknown>;
+	for (let i = 0; i < args.length; i++) {
+		const arg = args[i];
+		if (!arg.startsWith('-') || arg === '-') {
+			result.files.push(arg);
+			continue;
+		}
+		const eq = arg.indexOf('=');
+		let flag = eq < 0 ? arg : arg.substring(0, eq);
+		let inlineValue = eq < 0 ? undefined : arg.substring(eq + 1);
+		const nextValue = () => {
+			if (inlineValue !== undefined)
+				return inlineValue;
+			if (i + 1 >= args.length)
+				throw new Error(`Missing value for ${flag}`);
+			return args[++i];
+		};
+		switch (flag) {
+			case '-h':
+			case '--help':
+				result.help = true;
+				continue;
+			case '--write':
+				result.write = true;
+				continue;
+			case '-c':
+			case '--check':
+				result.check = true;
+				continue;
+			case '-l':
+			case '--list-different':
+				result.listDifferent = true;
+				continue;
+			case '--diff':
+				result.diff = true;
+				continue;
+			case '--stdin-filepath':
+				result.stdinFilepath = nextValue();
+				continue;
+			case '--range-start':
+				result.rangeStart = offsetValue(flag, nextValue());
+				continue;
+			case '--range-end':
+				result.rangeEnd = offsetValue(flag, nextValue());
+				continue;
+			case '--daemon':
+				result.daemon = true;
+				continue;
+			case '--stdio':
+				result.stdio = true;
+				continue;
+			case '--client':
+				result.client = true;
+				continue;
+			case '--socket':
+				result.socket = nextValue();
+				continue;
+			case '--tsconfig':
+				flag = '--tsp-ts-config';
+				break;
+			case '--organize-imports':
+				flag = '--tsp-organize-imports';
+				break;
+		}
+		let negated = false;
+		if (flag.startsWith('--no-')) {
+			negated = true;
+			flag = '--' + flag.substring(5);
+		}
+		const name = flag.substring(2).replace(/-([a-z])/g, (_, c: string) => c.toUpperCase());
+		const type = optionType(name);
+		if (!flag.startsWith('--') || !type)
+			throw new Error(`Unknown option ${arg}`);
+		if (type === 'boolean') {
+			if (negated)
+				inlineValue = 'false';
+			if (inlineValue !== undefined && inlineValue !== 'true' && inlineValue !== 'false')
+				throw new Error(`${flag} must be true or false`);
+			formatOptions[name] = inlineValue !== 'false';
+		}
+		else if (negated)
+			throw new Error(`Unknown option ${arg}`);
+		else if (type === 'int') {
+			const value = nextValue();
+			formatOptions[name] = offsetValue(flag, value);
+		}
+		else if (type === 'array')
+			formatOptions[name] = ((formatOptions[name] as string[] | undefined) ?? []).concat(nextValue());
+		else if (Array.isArray(type)) {
+			const value = nextValue();
+			if (!type.includes(value))
+				throw new Error(`${flag} must be one of ${type.join(', ')} (not '${value}')`);
+			formatOptions[name] = value;
+		}
+		else
+			formatOptions[name] = nextValue();
+	}
+	// The names formatText uses for the options it has its own names for.
+	const {tspTsConfig, tspOrganizeImports, ...rest} = formatOptions;
+	result.formatOptions = {...rest, tsConfig: tspTsConfig as string | undefined, organizeImports: tspOrganizeImports as boolean | undefined};
+	return result;
+}
+
+/**
+ * Convert the value of a (non-negative) number option.
+ */
+function offsetValue(flag: string, value: string): number {
+	if (!/^\d+$/.test(value))
+		throw new Error(`${flag} must be a number (not '${value}')`);
+	return Number(value);
+}
+
+/**
+ * The range given by --range-start and/or --range-end (either of which defaults to the start or end of the text), or undefined if neither was.
+ */
+export function parsedRange(parsed: ParsedArgs): ts.TextRange | undefined {
+	if (parsed.rangeStart === undefined && parsed.rangeEnd === undefined)
+		return undefined;
+	return {pos: parsed.rangeStart ?? 0, end: parsed.rangeEnd ?? Number.MAX_SAFE_INTEGER};
+}
+
+/**
+ * The type of a formatting option (a choice is the array of its values), or undefined if there is no such option (or it makes no sense without prettier).
+ */
+function optionType(name: string): 'boolean' | 'int' | 'string' | 'array' | string[] | undefined {
+	if (PrettierOptions[name])
+		return PrettierOptions[name];
+	if (name === 'tspDisable' || name === 'tspUseBuiltins' || !Object.prototype.hasOwnProperty.call(pluginOptions, name))
+		return undefined;
+	const option = pluginOptions[name as keyof typeof pluginOptions];
+	if (option.type === 'choice')
+		return option.choices.map(c => String(c.value));
+	if ((option as { array?: boolean }).array)
+		return 'array';
+	if (option.type === 'boolean' || option.type === 'int')
+		return option.type;
+	return 'string';
+}
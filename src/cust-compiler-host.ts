@@ -1,21 +1,41 @@
-import {existsSync, realpathSync} from 'fs';
+import {existsSync, realpathSync, statSync} from 'fs';
+import * as path from 'path';
 import ts, {TextChange} from 'typescript';
 
+/**
+ * The default bound (in characters) on the text a @see CustCompilerHost keeps of the files it read from disk.
+ */
+const DefaultMaxCachedSize = 32 * 1024 * 1024;
+
 /**
  * CompilerHost which loads sources from disk the first time, but performs in memory updates and retrieval.
+ * A file read from disk is read again if its modification time changes (and its version reflects that), so a long-lived host does not keep using stale dependencies.
  * It is also enhanced to make the implementation of @CustLangServiceHost easier by allowing versioned writes (aka updates) of a source file.
  * Thanks to ts-morph, prettier-plugin-organize-imports, and the TypeScript team for helping me finally wrap my head around CompilerHost/LanguageServiceHost
  */
 export class CustCompilerHost implements ts.CompilerHost {
-	constructor() {
+	/**
+	 * @param maxCachedSize The most text (in characters) to keep of the files read from disk (the least recently used are forgotten first, and simply read again if needed).
+	 */
+	constructor(protected maxCachedSize = DefaultMaxCachedSize) {
 		this.files = new Map<string, string>();
 		this.fileVersions = new Map<string, number>();
 		this.sourceFiles = new Map<string, ts.SourceFile>();
+		this.diskMtimes = new Map<string, number>();
+		this.cachedSize = 0;
 	}
 
 	protected files: Map<string, string>;
 	protected fileVersions: Map<string, number>;
 	protected sourceFiles: Map<string, ts.SourceFile>;
+	/**
+	 * The modification time of each file which was read from disk (and not written since).
+	 */
+	protected diskMtimes: Map<string, number>;
+	/**
+	 * The total length of the files which were read from disk (@see maxCachedSize).
+	 */
+	protected cachedSize: number;
 
 	public getNewLine(): string {
 		return ts.sys.newLine;
@@ -25,8 +45,15 @@ export class CustCompilerHost implements ts.CompilerHost {
 		return process.env[name];
 	}
 
+	/**
+	 * The path (not just the name) of the default library, since that is what the compiler reads (otherwise no global, e.g. JSON or Promise, would ever resolve).
+	 */
 	public getDefaultLibFileName(options: ts.CompilerOptions): string {
-		return ts.getDefaultLibFileName(options);
+		return path.join(this.getDefaultLibLocation(), ts.getDefaultLibFileName(options));
+	}
+
+	public getDefaultLibLocation(): string {
+		return path.dirname(ts.sys.getExecutingFilePath());
 	}
 
 	public useCaseSensitiveFileNames(): boolean {
@@ -48,27 +75,39 @@ export class CustCompilerHost implements ts.CompilerHost {
 	}
 
 	public fileExists(fileName: string): boolean {
-		if (this.files.has(fileName))
+		if (this.files.has(fileName) && this.isCurrent(fileName))
 			return true;
 		return ts.sys.fileExists(fileName);
 	}
 
 	public readFile(fileName: string): string | undefined {
-		if (this.files.has(fileName))
-			return this.files.get(fileName);
+		if (this.files.has(fileName) && this.isCurrent(fileName)) {
+			const cached = this.files.get(fileName)!;
+			if (this.diskMtimes.has(fileName)) {
+				// Re-insert to mark it as the most recently used.
+				this.files.delete(fileName);
+				this.files.set(fileName, cached);
+			}
+			return cached;
+		}
+		const mtime = fileMtime(fileName);
 		const content = ts.sys.readFile(fileName);
-		if (content)
+		if (content && mtime !== undefined) {
 			this.files.set(fileName, content);
+			this.diskMtimes.set(fileName, mtime);
+			this.cachedSize += content.length;
+			this.evict();
+		}
 		return content;
 	}
 
 	public getSourceFile(fileName: string, languageVersionOrOptions: ts.ScriptTarget | ts.CreateSourceFileOptions, onError?: (message: string) => void): ts.SourceFile | undefined {
-		if (this.sourceFiles.has(fileName))
+		if (this.sourceFiles.has(fileName) && this.isCurrent(fileName))
 			return this.sourceFiles.get(fileName);
 		try {
 			const text = this.readFile(fileName);
 			if (typeof text === 'string') {
-				const result = ts.createSourceFile(fileName, text, languageVersionOrOptions);
+				const result = ts.createSourceFile(fileName, text, languageVersionOrOptions, true);
 				this.sourceFiles.set(fileName, result);
 				return result;
 			}
@@ -81,11 +120,13 @@ export class CustCompilerHost implements ts.CompilerHost {
 	}
 
 	public writeFile(fileName: string, text: string, writeByteOrderMark?: boolean, onError?: ((message: string) => void) | undefined): void {
+		// From now on, the file lives in memory (and is never forgotten, or replaced by what is on disk).
+		this.forgetDiskFile(fileName);
 		this.files.set(fileName, text);
 		if (this.sourceFiles.has(fileName)) {
 			const sf = this.sourceFiles.get(fileName)!;
 			try {
-				const result = ts.createSourceFile(fileName, text, sf.languageVersion);
+				const result = ts.createSourceFile(fileName, text, sf.languageVersion, true);
 				this.sourceFiles.set(fileName, result);
 			}
 			catch (err) {
@@ -97,16 +138,66 @@ export class CustCompilerHost implements ts.CompilerHost {
 		this.fileVersions.set(fileName, newVers);
 	}
 
+	/**
+	 * Not a ts.CompilerHost method, but allows a long-lived host to forget about a file it no longer needs to hold in memory.
+	 * The version is bumped (not reset) so that a ts.LanguageService which still remembers the old content will not mistake a subsequent read (or write) for the same version.
+	 */
+	public deleteFile(fileName: string): void {
+		this.forgetDiskFile(fileName);
+		this.files.delete(fileName);
+		this.sourceFiles.delete(fileName);
+		const newVers = (this.fileVersions.get(fileName) ?? 1) + 1;
+		this.fileVersions.set(fileName, newVers);
+	}
+
 	/**
 	 * Not a ts.CompilerHost method, but since we implement writeFile,
 	 * this allows us to simplify our custom ts.LanguageServiceHost
 	 */
 	public getScriptVersion(fileName: string): string {
-		const v = this.fileVersions.get(fileName);
-		// noinspection SuspiciousTypeOfGuard
-		if (typeof v === 'number')
-			return String(v);
-		return '1';
+		const v = this.fileVersions.get(fileName) ?? 1;
+		// A file which is (or would be) read from disk is versioned by its modification time as well.
+		if (!this.files.has(fileName) || this.diskMtimes.has(fileName)) {
+			this.readFile(fileName);
+			const mtime = this.diskMtimes.get(fileName);
+			if (mtime !== undefined)
+				return `${v}@${mtime}`;
+		}
+		return String(v);
+	}
+
+	/**
+	 * True unless the file was read from disk, and has been modified (or deleted) since (in which case we forget what we read).
+	 */
+	protected isCurrent(fileName: string): boolean {
+		const mtime = this.diskMtimes.get(fileName);
+		if (mtime === undefined || fileMtime(fileName) === mtime)
+			return true;
+		this.forgetDiskFile(fileName);
+		return false;
+	}
+
+	/**
+	 * Forget what we read from disk for this file (if anything).
+	 */
+	protected forgetDiskFile(fileName: string): void {
+		if (!this.diskMtimes.has(fileName))
+			return;
+		this.cachedSize -= this.files.get(fileName)?.length ?? 0;
+		this.diskMtimes.delete(fileName);
+		this.files.delete(fileName);
+		this.sourceFiles.delete(fileName);
+	}
+
+	/**
+	 * Forget the least recently used files read from disk, until what remains is within @see maxCachedSize
+	 */
+	protected evict(): void {
+		for (const fileName of this.files.keys()) {
+			if (this.cachedSize <= this.maxCachedSize)
+				break;
+			this.forgetDiskFile(fileName);
+		}
 	}
 
 	/**
@@ -122,3 +213,10 @@ export class CustCompilerHost implements ts.CompilerHost {
 		return newText;
 	}
 }
+
+/**
+ * The modification time of a file, or undefined if it does not exist.
+ */
+function fileMtime(fileName: string): number | undefined {
+	return statSync(fileName, {throwIfNoEntry: false})?.mtimeMs;
+}
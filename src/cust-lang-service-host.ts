@@ -2,18 +2,22 @@ import ts from 'typescript';
 import {CustCompilerHost} from './cust-compiler-host';
 
 /**
- * Delegates all functionality to either ts.Program or ts.CompilerHost (aka @see CustCompilerHost).
+ * Delegates all functionality to ts.CompilerHost (aka @see CustCompilerHost), except for the compiler options and the set of root files.
+ * The root files can be added and removed, which allows a single instance (and its ts.LanguageService) to be reused across many source files.
  */
 export class CustLangServiceHost implements ts.LanguageServiceHost {
-	constructor(protected compilerHost: CustCompilerHost, protected program: ts.Program) {
+	constructor(protected compilerHost: CustCompilerHost, protected compilerOptions: ts.CompilerOptions) {
+		this.scriptFileNames = new Set<string>();
 	}
 
+	protected scriptFileNames: Set<string>;
+
 	public getCompilationSettings(): ts.CompilerOptions {
-		return this.program.getCompilerOptions();
+		return this.compilerOptions;
 	}
 
 	public getCurrentDirectory(): string {
-		return this.program.getCurrentDirectory();
+		return this.compilerHost.getCurrentDirectory();
 	}
 
 	public getDefaultLibFileName(options: ts.CompilerOptions): string {
@@ -21,9 +25,22 @@ export class CustLangServiceHost implements ts.LanguageServiceHost {
 	}
 
 	public getScriptFileNames(): string[] {
-		return this.program.getSourceFiles().map((sf) => sf.fileName);
+		return Array.from(this.scriptFileNames);
+	}
+
+	/**
+	 * Not a ts.LanguageServiceHost method, but adds a root file to the program the ts.LanguageService will build.
+	 */
+	public addScriptFileName(fileName: string): void {
+		this.scriptFileNames.add(fileName);
 	}
 
+	/**
+	 * Not a ts.LanguageServiceHost method, but removes a root file from the program the ts.LanguageService will build.
+	 */
+	public removeScriptFileName(fileName: string): void {
+		this.scriptFileNames.delete(fileName);
+	}
 
 	public fileExists(fileName: string): boolean {
 		return this.compilerHost.fileExists(fileName);
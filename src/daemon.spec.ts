@@ -0,0 +1,103 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {PassThrough} from 'stream';
+import {CliIO} from './cli';
+import {FormatDaemon, runClient, sendRequest} from './daemon';
+
+describe('FormatDaemon', () => {
+	let dir: string;
+	let daemon: FormatDaemon;
+	const unformatted = 'function foo( a:number ) {\nreturn a+1\n}\n';
+
+	beforeEach(() => {
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tsp-'));
+		daemon = new FormatDaemon({tsConfig: 'ignore'});
+	});
+
+	afterEach(() => {
+		daemon.stop();
+		fs.rmSync(dir, {recursive: true, force: true});
+	});
+
+	it('should respond to each request line', async () => {
+		const input = new PassThrough();
+		const output = new PassThrough();
+		let received = '';
+		output.on('data', chunk => received += String(chunk));
+		const served = daemon.serve(input, output);
+		input.write(JSON.stringify({id: 1, filePath: path.join(dir, 'foo.ts'), text: unformatted, cursorOffset: 27}) + '\n');
+		input.write('not json\n');
+		input.end(JSON.stringify({id: 2, filePath: path.join(dir, 'foo.ts')}) + '\n');
+		await served;
+		const responses = received.trim().split('\n').map(line => JSON.parse(line));
+		expect(responses[0]).toEqual({id: 1, text: 'function foo(a: number) {\n\treturn a + 1;\n}\n', cursorOffset: 27});
+		expect(responses[1].error).toMatch(/^Invalid request/);
+		expect(responses[2]).toEqual({id: 2, error: 'A format request must specify the text to format'});
+	});
+
+	it('should forget the cached configuration when it changes', async () => {
+		const configFile = path.join(dir, 'ts-format.json');
+		fs.writeFileSync(configFile, '{"indentSize": 2, "tabSize": 2, "convertTabsToSpaces": true}');
+		const request = {filePath: path.join(dir, 'foo.ts'), text: unformatted};
+		expect(daemon.handle(request).text).toEqual('function foo(a: number) {\n  return a + 1;\n}\n');
+		fs.writeFileSync(configFile, '{"indentSize": 3, "tabSize": 3, "convertTabsToSpaces": true}');
+		// Give the watcher a moment to notice the change.
+		for (let i = 0; i < 50 && daemon.handle(request).text?.includes('\n  return'); i++)
+			await new Promise(resolve => setTimeout(resolve, 50));
+		expect(daemon.handle(request).text).toEqual('function foo(a: number) {\n   return a + 1;\n}\n');
+	});
+
+	it('should notice a dependency changing between requests', () => {
+		const dependency = path.join(dir, 'b.ts');
+		fs.writeFileSync(dependency, 'export const y = 1;\n');
+		const request = {filePath: path.join(dir, 'a.ts'), text: 'import {Bar} from \'./b\';\nexport const x: Bar = {};\n', options: {tspTypeImports: 'top-level' as const, singleQuote: true}};
+		expect(daemon.handle(request).text).toEqual('import { Bar } from \'./b\';\nexport const x: Bar = {};\n');
+		fs.writeFileSync(dependency, 'export const y = 1;\nexport interface Bar {\n}\n');
+		// Make sure the modification time changes, however coarse the file system's clock.
+		const later = new Date(Date.now() + 10000);
+		fs.utimesSync(dependency, later, later);
+		expect(daemon.handle(request).text).toEqual('import type { Bar } from \'./b\';\nexport const x: Bar = {};\n');
+	});
+
+	it('should serve clients over a socket', async () => {
+		const socketPath = process.platform === 'win32' ? `\\\\.\\pipe\\tsp-${path.basename(dir)}` : path.join(dir, 'daemon.sock');
+		const listening = daemon.listen(socketPath);
+		let output = '';
+		const io: CliIO = {
+			stdout: text => output += text,
+			stderr: text => output += text,
+			readStdin: () => 'let  a=1\nlet  b=2\n'
+		};
+		expect(await runClient(['--client', '--socket', socketPath, '--stdin-filepath', path.join(dir, 'foo.ts'), '--range-start', '12'], io)).toEqual(0);
+		expect(output).toEqual('let  a=1\nlet b = 2;\n');
+		expect(await sendRequest(socketPath, {id: 'bye', command: 'stop'})).toEqual({id: 'bye'});
+		await listening;
+	});
+
+	if (process.platform !== 'win32') {
+		it('should keep the socket private, and never take over from a running daemon', async () => {
+			const socketPath = path.join(dir, 'private', 'daemon.sock');
+			const listening = daemon.listen(socketPath);
+			expect(fs.statSync(path.dirname(socketPath)).mode & 0o777).toEqual(0o700);
+			expect(fs.statSync(socketPath).mode & 0o077).toEqual(0);
+			const other = new FormatDaemon();
+			await expectAsync(other.listen(socketPath)).toBeRejectedWithError(/already listening/);
+			// Some other user could connect to (and so could also have created) a socket which is not private.
+			fs.chmodSync(socketPath, 0o666);
+			await expectAsync(sendRequest(socketPath, {command: 'ping'})).toBeRejectedWithError(/accessed by other users/);
+			fs.chmodSync(socketPath, 0o600);
+			expect(await sendRequest(socketPath, {command: 'stop'})).toEqual({});
+			await listening;
+		});
+
+		it('should replace a socket nothing answers on', async () => {
+			const socketPath = path.join(dir, 'stale.sock');
+			fs.writeFileSync(socketPath, '');
+			const listening = daemon.listen(socketPath);
+			await new Promise(resolve => setTimeout(resolve, 100));
+			expect(await sendRequest(socketPath, {command: 'stop'})).toEqual({});
+			await listening;
+		});
+	}
+});
@@ -0,0 +1,403 @@
+import {spawn} from 'child_process';
+import * as fs from 'fs';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import * as readline from 'readline';
+import ts from 'typescript';
+import {CliIO, ParsedArgs, parseArgs, parsedRange, ProcessIO} from './cli';
+import {cachedConfigFiles, clearCaches, FormatTextOptions, formatText} from './index';
+
+/**
+ * A request to the daemon (sent as a single line of JSON).
+ */
+export interface DaemonRequest {
+	/**
+	 * Echoed back in the response (so that a client may have several requests in flight).
+	 */
+	id?: number | string;
+	/**
+	 * What to do, defaults to 'format'.
+	 *  ping    Just respond (e.g. to find out whether the daemon is running).
+	 *  stop    Respond, and then shut the daemon down.
+	 */
+	command?: 'format' | 'ping' | 'stop';
+	/**
+	 * The path of the file being formatted (it need not exist, but it determines which tsconfig.json, ts-format.json and .editorconfig apply).
+	 */
+	filePath?: string;
+	/**
+	 * The text to format.
+	 */
+	text?: string;
+	/**
+	 * If specified, only the statements which overlap this range are formatted.
+	 */
+	range?: ts.TextRange;
+	/**
+	 * If specified, the offset is mapped through every change made to the text.
+	 */
+	cursorOffset?: number;
+	/**
+	 * Formatting options (overriding those the daemon was started with).
+	 */
+	options?: FormatTextOptions;
+}
+
+/**
+ * The daemon's response to a @see DaemonRequest (sent as a single line of JSON).
+ */
+export interface DaemonResponse {
+	id?: number | string;
+	/**
+	 * The formatted text (absent if there is an error, or the request was not to format).
+	 */
+	text?: string;
+	/**
+	 * Where the cursor ended up (if the request specified a cursorOffset).
+	 */
+	cursorOffset?: number;
+	/**
+	 * Why the request failed.
+	 */
+	error?: string;
+}
+
+/**
+ * The socket the daemon listens on when none is specified (one per user, since it formats with that user's access to the file system).
+ * NOTE:
+ *  The socket lives in a directory only the user can access ($XDG_RUNTIME_DIR, or ts-pretty's directory in the user's cache, which @see FormatDaemon.listen creates with mode 0700),
+ *  rather than at a predictable path in the shared temp directory (where another user could create it first, and answer our requests).
+ */
+export function defaultSocketPath(): string {
+	if (process.platform === 'win32')
+		return `\\\\.\\pipe\\ts-pretty-${os.userInfo().username}`;
+	if (process.env.XDG_RUNTIME_DIR)
+		return path.join(process.env.XDG_RUNTIME_DIR, 'ts-pretty.sock');
+	return path.join(process.env.XDG_CACHE_HOME || path.join(os.homedir(), '.cache'), 'ts-pretty', 'daemon.sock');
+}
+
+/**
+ * Formats requests for as long as it runs, so that the (expensive) TypeScript projects of the files it formats stay loaded in between (e.g. for an editor's format-on-save).
+ * Every configuration file that has been read (tsconfig.json, ts-format.json and .editorconfig) is watched, and all caches are cleared as soon as any of them changes.
+ * Source files need no watching, each request re-reads any (cached) source file whose modification time has changed (@see CustCompilerHost), so type information (e.g. for tspTypeImports) is never stale.
+ * NOTE:
+ *  The files a tsconfig.json extends are not watched (touch the tsconfig.json itself after changing one of them).
+ */
+export class FormatDaemon {
+	/**
+	 * @param options   The formatting options of every request (which a request may override).
+	 */
+	constructor(protected options: FormatTextOptions = {}) {
+		this.watchers = new Map<string, fs.FSWatcher>();
+		this.stopped = false;
+	}
+	protected watchers: Map<string, fs.FSWatcher>;
+	protected stopped: boolean;
+	protected server?: net.Server;
+
+	/**
+	 * Handle a single request (never throws, failures are reported in the response).
+	 */
+	public handle(request: DaemonRequest): DaemonResponse {
+		const id = request.id;
+		try {
+			if (request.command === 'ping')
+				return {id};
+			if (request.command === 'stop') {
+				this.stop();
+				return {id};
+			}
+			if (request.command !== undefined && request.command !== 'format')
+				throw new Error(`Unknown command '${String(request.command)}'`);
+			if (typeof request.text !== 'string')
+				throw new Error('A format request must specify the text to format');
+			const result = formatText(request.text, {
+				...this.options,
+				...request.options,
+				fileName: request.filePath ?? request.options?.fileName ?? this.options.fileName,
+				range: request.range,
+				cursorOffset: request.cursorOffset
+			});
+			return {id, text: result.text, cursorOffset: result.cursorOffset};
+		}
+		catch (err) {
+			return {id, error: (err as Error).message};
+		}
+		finally {
+			this.watchConfigFiles();
+		}
+	}
+
+	/**
+	 * Handle a single line of the protocol (i.e. a JSON @see DaemonRequest), returning the line (without the newline) to respond with.
+	 */
+	public handleLine(line: string): string {
+		let request: DaemonRequest;
+		try {
+			request = JSON.parse(line) as DaemonRequest;
+		}
+		catch (err) {
+			return JSON.stringify({error: `Invalid request: ${(err as Error).message}`} as DaemonResponse);
+		}
+		if (!request || typeof request !== 'object')
+			return JSON.stringify({error: 'Invalid request: not an object'} as DaemonResponse);
+		return JSON.stringify(this.handle(request));
+	}
+
+	/**
+	 * Respond (on the output) to every request line read from the input.
+	 *
+	 * @returns A promise which resolves when the input ends (or the daemon is stopped).
+	 */
+	public serve(input: NodeJS.ReadableStream, output: NodeJS.WritableStream): Promise<void> {
+		return new Promise<void>(resolve => {
+			const lines = readline.createInterface({input, crlfDelay: Infinity});
+			lines.on('line', line => {
+				if (line.trim().length === 0)
+					return;
+				output.write(this.handleLine(line) + '\n');
+				if (this.stopped)
+					lines.close();
+			});
+			lines.on('close', () => resolve());
+		});
+	}
+
+	/**
+	 * Listen for connections on a Unix domain socket (or a named pipe on Windows), serving the requests of each (@see serve).
+	 * The socket (and its directory, if it has to be created) can only be accessed by the user running the daemon.
+	 *
+	 * @returns A promise which resolves when the daemon is stopped (and rejects if another daemon is already listening on the socket).
+	 */
+	public async listen(socketPath: string): Promise<void> {
+		if (process.platform !== 'win32') {
+			fs.mkdirSync(path.dirname(socketPath), {recursive: true, mode: 0o700});
+			// A daemon which died without cleaning up leaves its socket file behind (which would make listen fail), but one which still answers must be left alone.
+			if (fs.existsSync(socketPath)) {
+				if (await isAnswering(socketPath))
+					throw new Error(`A ts-pretty daemon is already listening on ${socketPath}`);
+				fs.unlinkSync(socketPath);
+			}
+		}
+		return new Promise<void>((resolve, reject) => {
+			const server = net.createServer(socket => {
+				socket.on('error', () => socket.destroy());
+				this.serve(socket, socket).then(() => socket.end());
+			});
+			this.server = server;
+			server.on('close', () => resolve());
+			server.on('error', reject);
+			// Create the socket accessible by this user only (rather than fixing its mode afterwards, by which time a client may have found it).
+			const umask = process.platform !== 'win32' ? process.umask(0o077) : undefined;
+			try {
+				server.listen(socketPath);
+			}
+			finally {
+				if (umask !== undefined)
+					process.umask(umask);
+			}
+		});
+	}
+
+	/**
+	 * Stop listening, and stop watching the configuration files.
+	 */
+	public stop(): void {
+		this.stopped = true;
+		this.unwatch();
+		this.server?.close();
+	}
+
+	/**
+	 * Start watching every configuration file that has been read (and is not already being watched).
+	 */
+	protected watchConfigFiles(): void {
+		if (this.stopped)
+			return;
+		cachedConfigFiles().filter(f => !this.watchers.has(f)).forEach(f => {
+			try {
+				// Not persistent, the daemon runs for as long as it has input (or a socket to listen on), not for as long as it has files to watch.
+				this.watchers.set(f, fs.watch(f, {persistent: false}, () => this.invalidate()));
+			}
+			catch {
+				// e.g. the file was deleted since it was read (the next request will read whatever is there now).
+			}
+		});
+	}
+
+	/**
+	 * A configuration file changed, so forget everything cached (the watchers are restarted for whatever the next request reads).
+	 */
+	protected invalidate(): void {
+		clearCaches();
+		this.unwatch();
+	}
+
+	protected unwatch(): void {
+		this.watchers.forEach(w => w.close());
+		this.watchers.clear();
+	}
+}
+
+/**
+ * Run the daemon (ts-pretty --daemon).
+ *
+ * @param args  The command line arguments (@see runCli), where any formatting options become the defaults of every request.
+ * @returns A promise of the exit code, which resolves when the daemon stops.
+ */
+export async function runDaemon(args: string[], io: CliIO = ProcessIO): Promise<number> {
+	const parsed = parseCommand(args, io);
+	if (!parsed)
+		return 2;
+	const daemon = new FormatDaemon(parsed.formatOptions);
+	try {
+		if (parsed.stdio)
+			await daemon.serve(process.stdin, process.stdout);
+		else
+			await daemon.listen(parsed.socket ?? defaultSocketPath());
+	}
+	catch (err) {
+		io.stderr(`[error] ${(err as Error).message}\n`);
+		return 2;
+	}
+	finally {
+		daemon.stop();
+	}
+	return 0;
+}
+
+/**
+ * Format stdin via the daemon (ts-pretty --client), starting the daemon if it is not running.
+ * This is just as fast as the daemon, without an editor having to speak its protocol (only the formatted text is written, to stdout).
+ *
+ * @param args  The command line arguments (@see runCli), where any formatting options are sent with the request.
+ * @returns A promise of the exit code (0 success, 2 errors).
+ */
+export async function runClient(args: string[], io: CliIO = ProcessIO): Promise<number> {
+	const parsed = parseCommand(args, io);
+	if (!parsed)
+		return 2;
+	if (parsed.files.length > 0) {
+		io.stderr(`[error] --client formats stdin (use --stdin-filepath to name the file)\n`);
+		return 2;
+	}
+	const socketPath = parsed.socket ?? defaultSocketPath();
+	const request: DaemonRequest = {filePath: parsed.stdinFilepath, text: io.readStdin(), range: parsedRange(parsed), options: parsed.formatOptions};
+	let response: DaemonResponse;
+	try {
+		response = await sendRequest(socketPath, request).catch(async (err: NodeJS.ErrnoException) => {
+			if (err.code !== 'ENOENT' && err.code !== 'ECONNREFUSED')
+				throw err;
+			startDaemon(socketPath);
+			return retry(() => sendRequest(socketPath, request));
+		});
+	}
+	catch (err) {
+		io.stderr(`[error] Unable to reach the ts-pretty daemon (at ${socketPath}): ${(err as Error).message}\n`);
+		return 2;
+	}
+	if (response.error !== undefined) {
+		io.stderr(`[error] ${parsed.stdinFilepath ?? '<stdin>'}: ${response.error}\n`);
+		return 2;
+	}
+	io.stdout(response.text ?? '');
+	return 0;
+}
+
+/**
+ * Send a single request to the daemon listening on the socket, and wait for its response.
+ * The request is only sent if the socket belongs to this user (and no one else may write to it), since the response is trusted to be the formatted text.
+ */
+export function sendRequest(socketPath: string, request: DaemonRequest): Promise<DaemonResponse> {
+	return new Promise<DaemonResponse>((resolve, reject) => {
+		try {
+			verifySocket(socketPath);
+		}
+		catch (err) {
+			reject(err);
+			return;
+		}
+		let received = '';
+		const socket: net.Socket = net.createConnection(socketPath, () => socket.write(JSON.stringify(request) + '\n'));
+		socket.setEncoding('utf8');
+		socket.on('data', (chunk: string) => {
+			received += chunk;
+			const eol = received.indexOf('\n');
+			if (eol >= 0) {
+				socket.end();
+				try {
+					resolve(JSON.parse(received.substring(0, eol)) as DaemonResponse);
+				}
+				catch (err) {
+					reject(err);
+				}
+			}
+		});
+		socket.on('error', reject);
+		socket.on('close', () => reject(new Error('The connection closed without a response')));
+	});
+}
+
+/**
+ * Throw unless the socket (if it exists, connecting reports it if it does not) is owned by this user, and only this user may connect to it.
+ */
+function verifySocket(socketPath: string): void {
+	if (process.platform === 'win32' || !process.getuid)
+		return;
+	const stats = fs.lstatSync(socketPath, {throwIfNoEntry: false});
+	if (!stats)
+		return;
+	if (!stats.isSocket())
+		throw new Error(`${socketPath} is not a socket`);
+	if (stats.uid !== process.getuid())
+		throw new Error(`${socketPath} is owned by another user`);
+	// The permission bits are the last three octal digits (of which the group's and others' are the last two).
+	const permissions = stats.mode % 0o1000;
+	if (permissions % 0o100 !== 0)
+		throw new Error(`${socketPath} may be accessed by other users (mode ${permissions.toString(8)})`);
+}
+
+/**
+ * True if a daemon answers a ping on the socket.
+ */
+function isAnswering(socketPath: string): Promise<boolean> {
+	return sendRequest(socketPath, {command: 'ping'}).then(() => true, () => false);
+}
+
+/**
+ * Parse the arguments of the daemon or client, reporting (and returning undefined for) invalid ones.
+ */
+function parseCommand(args: string[], io: CliIO): ParsedArgs | undefined {
+	try {
+		return parseArgs(args);
+	}
+	catch (err) {
+		io.stderr(`[error] ${(err as Error).message}\n`);
+		return undefined;
+	}
+}
+
+/**
+ * Start a daemon (running this same script) in the background, where it outlives the client which started it.
+ */
+function startDaemon(socketPath: string): void {
+	const daemon = spawn(process.execPath, [...process.execArgv, process.argv[1], '--daemon', '--socket', socketPath], {detached: true, stdio: 'ignore'});
+	daemon.unref();
+}
+
+/**
+ * Retry an attempt (every 100ms, for up to 10 seconds) until it succeeds, e.g. while a daemon is starting up.
+ */
+async function retry<T>(attempt: () => Promise<T>): Promise<T> {
+	for (let tries = 1; ; tries++) {
+		await new Promise(resolve => setTimeout(resolve, 100));
+		try {
+			return await attempt();
+		}
+		catch (err) {
+			if (tries >= 100)
+				throw err;
+		}
+	}
+}
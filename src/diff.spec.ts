@@ -0,0 +1,48 @@
+import {textEdits, unifiedDiff} from './diff';
+
+describe('diff', () => {
+	function apply(text: string, edits: ReturnType<typeof textEdits>): string {
+		return edits.slice(0).reverse().reduce((t, e) => t.substring(0, e.span.start) + e.newText + t.substring(e.span.start + e.span.length), text);
+	}
+
+	it('should produce the edits which turn one text into the other', () => {
+		const before = 'a\nb\nc\nd\ne\n';
+		const after = 'a\nB\nc\ne\nf\n';
+		const edits = textEdits(before, after);
+		expect(edits).toEqual([
+			{span: {start: 2, length: 2}, newText: 'B\n'},
+			{span: {start: 6, length: 2}, newText: ''},
+			{span: {start: 10, length: 0}, newText: 'f\n'}
+		]);
+		expect(apply(before, edits)).toEqual(after);
+		expect(textEdits(before, before)).toEqual([]);
+		expect(apply('', textEdits('', 'x'))).toEqual('x');
+		expect(apply('x\ny', textEdits('x\ny', 'y\nx\n'))).toEqual('y\nx\n');
+	});
+
+	it('should produce a unified diff', () => {
+		const before = Array.from({length: 20}, (_, i) => `line ${i + 1}\n`).join('');
+		const after = before.replace('line 2\n', 'line two\n').replace('line 18\n', '');
+		expect(unifiedDiff(before, after, 'src/foo.ts')).toEqual([
+			'--- a/src/foo.ts',
+			'+++ b/src/foo.ts',
+			'@@ -1,5 +1,5 @@',
+			' line 1',
+			'-line 2',
+			'+line two',
+			' line 3',
+			' line 4',
+			' line 5',
+			'@@ -15,6 +15,5 @@',
+			' line 15',
+			' line 16',
+			' line 17',
+			'-line 18',
+			' line 19',
+			' line 20',
+			''
+		].join('\n'));
+		expect(unifiedDiff('a', 'b', 'x.ts')).toEqual('--- a/x.ts\n+++ b/x.ts\n@@ -1,1 +1,1 @@\n-a\n\\ No newline at end of file\n+b\n\\ No newline at end of file\n');
+		expect(unifiedDiff(before, before, 'src/foo.ts')).toEqual('');
+	});
+});
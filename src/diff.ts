@@ -0,0 +1,175 @@
+import ts from 'typescript';
+
+/**
+ * A run of lines (each including its line terminator) which are the same in both texts, or only in the old one, or only in the new one.
+ */
+interface DiffRun {
+	kind: 'equal' | 'delete' | 'insert';
+	lines: string[];
+}
+
+/**
+ * The minimal edits (of whole lines) which turn the old text into the new one.
+ */
+export function textEdits(oldText: string, newText: string): ts.TextChange[] {
+	const result: ts.TextChange[] = [];
+	let pos = 0;
+	let pending: ts.TextChange | undefined;
+	diffLines(oldText, newText).forEach(run => {
+		const text = run.lines.join('');
+		if (run.kind === 'equal') {
+			pending = undefined;
+			pos += text.length;
+			return;
+		}
+		if (!pending) {
+			pending = {span: {start: pos, length: 0}, newText: ''};
+			result.push(pending);
+		}
+		if (run.kind === 'delete') {
+			pending.span.length += text.length;
+			pos += text.length;
+		}
+		else
+			pending.newText += text;
+	});
+	return result;
+}
+
+/**
+ * A unified diff (as produced by 'diff -u' or 'git diff') of the old text and the new one.
+ *
+ * @param fileName  Named in the '---' and '+++' header lines.
+ * @param context   How many unchanged lines to show around each change.
+ * @returns The diff, or an empty string if the texts are the same.
+ */
+export function unifiedDiff(oldText: string, newText: string, fileName: string, context = 3): string {
+	// Flatten the runs into single lines, so that hunks can be cut out of them.
+	const lines: { kind: DiffRun['kind'], line: string }[] = [];
+	diffLines(oldText, newText).forEach(run => run.lines.forEach(line => lines.push({kind: run.kind, line})));
+	const output: string[] = [];
+	let oldLine = 0;
+	let newLine = 0;
+	let index = 0;
+	while (index < lines.length) {
+		// Find the next change, and the extent of the hunk around it (changes separated by no more than twice the context share a hunk).
+		const change = lines.findIndex((l, i) => i >= index && l.kind !== 'equal');
+		if (change < 0)
+			break;
+		const start = Math.max(index, change - context);
+		let end = change;
+		for (let i = change; i < lines.length; i++) {
+			if (lines[i].kind !== 'equal')
+				end = i + 1;
+			else if (i - end >= context * 2)
+				break;
+		}
+		end = Math.min(lines.length, end + context);
+		// Count the lines skipped since the last hunk.
+		lines.slice(index, start).forEach(() => {
+			oldLine++;
+			newLine++;
+		});
+		const hunk = lines.slice(start, end);
+		const oldCount = hunk.filter(l => l.kind !== 'insert').length;
+		const newCount = hunk.filter(l => l.kind !== 'delete').length;
+		output.push(`@@ -${hunkRange(oldLine, oldCount)} +${hunkRange(newLine, newCount)} @@\n`);
+		hunk.forEach(l => {
+			const prefix = l.kind === 'equal' ? ' ' : l.kind === 'delete' ? '-' : '+';
+			output.push(prefix + l.line + (/(\r?\n|\r)$/.test(l.line) ? '' : '\n\\ No newline at end of file\n'));
+		});
+		oldLine += oldCount;
+		newLine += newCount;
+		index = end;
+	}
+	if (output.length === 0)
+		return '';
+	return `--- a/${fileName}\n+++ b/${fileName}\n` + output.join('');
+}
+
+/**
+ * The 'start,count' of a hunk header (where an empty range starts at the line before it, as 'diff -u' does).
+ */
+function hunkRange(linesBefore: number, count: number): string {
+	return `${count === 0 ? linesBefore : linesBefore + 1},${count}`;
+}
+
+/**
+ * Split both texts into lines (keeping their line terminators), and compute the shortest edit script between them (using Myers' algorithm).
+ * NOTE:
+ *  The lines the texts start and end with in common are trimmed before the (comparatively expensive) search, since formatting usually leaves most of a file alone.
+ */
+function diffLines(oldText: string, newText: string): DiffRun[] {
+	const a = splitLines(oldText);
+	const b = splitLines(newText);
+	let prefix = 0;
+	while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix])
+		prefix++;
+	let suffix = 0;
+	while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix])
+		suffix++;
+	const result: DiffRun[] = [];
+	const push = (kind: DiffRun['kind'], line: string) => {
+		const last = result[result.length - 1];
+		if (last?.kind === kind)
+			last.lines.push(line);
+		else
+			result.push({kind, lines: [line]});
+	};
+	a.slice(0, prefix).forEach(line => push('equal', line));
+	myers(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix)).forEach(([kind, line]) => push(kind, line));
+	a.slice(a.length - suffix).forEach(line => push('equal', line));
+	return result;
+}
+
+/**
+ * The shortest edit script (as a sequence of kept, deleted and inserted lines) which turns a into b.
+ * Only the part of each 'V' array that the next 'D' can reach is kept for the backtracking, so memory grows with the square of the number of differences (not the length of the texts).
+ */
+function myers(a: string[], b: string[]): [DiffRun['kind'], string][] {
+	const trace: Int32Array[] = [];
+	const max = a.length + b.length;
+	const offset = max + 1;
+	const v = new Int32Array(2 * max + 3);
+	let found = max === 0;
+	for (let d = 0; d <= max && !found; d++) {
+		// Before this round, only diagonals -d-1 through d+1 can have been written.
+		trace.push(v.slice(offset - d - 1, offset + d + 2));
+		for (let k = -d; k <= d && !found; k += 2) {
+			let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+			let y = x - k;
+			while (x < a.length && y < b.length && a[x] === b[y]) {
+				x++;
+				y++;
+			}
+			v[offset + k] = x;
+			found = x >= a.length && y >= b.length;
+		}
+	}
+	const result: [DiffRun['kind'], string][] = [];
+	let x = a.length;
+	let y = b.length;
+	for (let d = trace.length - 1; d >= 0; d--) {
+		const previous = trace[d];
+		const at = (k: number) => previous[k + d + 1];
+		const k = x - y;
+		const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+		const prevX = at(prevK);
+		const prevY = prevX - prevK;
+		while (x > prevX && y > prevY) {
+			result.push(['equal', a[--x]]);
+			y--;
+		}
+		if (d > 0) {
+			if (x === prevX)
+				result.push(['insert', b[--y]]);
+			else
+				result.push(['delete', a[--x]]);
+		}
+	}
+	return result.reverse();
+}
+
+function splitLines(text: string): string[] {
+	return text.match(/[^\r\n]*(\r\n|\r|\n)|[^\r\n]+$/g) ?? [];
+}
@@ -0,0 +1,23 @@
+import {EditorConfigResolver} from './editorconfig-resolver';
+
+describe('EditorConfigResolver', () => {
+	it('should apply the sections which match the file (later sections win)', () => {
+		const resolver = new EditorConfigResolver();
+		const settings = resolver.resolve('./fixtures/editorconfig/src/main.ts');
+		expect(settings?.format).toEqual({convertTabsToSpaces: true, indentSize: 3, tabSize: 3, newLineCharacter: '\n'});
+		expect(settings?.insertFinalNewline).toBeTrue();
+		expect(resolver.resolve('./fixtures/editorconfig/main.js')?.format.convertTabsToSpaces).toBeFalse();
+	});
+
+	it('should resolve indent_size = tab to the tab_width', () => {
+		const resolver = new EditorConfigResolver();
+		const settings = resolver.resolve('./fixtures/editorconfig/legacy/old.js');
+		expect(settings?.format.indentSize).toEqual(8);
+		expect(settings?.format.tabSize).toEqual(8);
+		expect(settings?.insertFinalNewline).toBeFalse();
+	});
+
+	it('should not apply without a file', () => {
+		expect(new EditorConfigResolver().resolve(undefined)).toBeUndefined();
+	});
+});
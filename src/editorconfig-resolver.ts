@@ -0,0 +1,164 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import ts from 'typescript';
+import {matchesGlob} from './globs';
+
+/**
+ * The settings (from .editorconfig files) which apply to a source file.
+ *
+ * @see https://editorconfig.org
+ */
+export interface EditorConfigSettings {
+	/**
+	 * What indent_style, indent_size, tab_width, end_of_line and trim_trailing_whitespace translate to (ts.EditorSettings is the part of ts.FormatCodeSettings they cover).
+	 */
+	format: ts.EditorSettings;
+	/**
+	 * insert_final_newline (which has no ts.EditorSettings equivalent).
+	 */
+	insertFinalNewline?: boolean;
+}
+
+/**
+ * A parsed .editorconfig file.
+ */
+interface EditorConfigFile {
+	root: boolean;
+	sections: { glob: string, properties: Record<string, string> }[];
+}
+
+/**
+ * Locates (and parses) the .editorconfig files which apply to a given source file.
+ * We search upwards from the directory of the file being formatted (until a file marked root = true), and the properties of nearer files (and of later sections within a file) win.
+ * Parsed files are cached by path, but re-read whenever their modification time changes.
+ */
+export class EditorConfigResolver {
+	constructor() {
+		this.parsedFiles = new Map<string, { mtimeMs: number, content: EditorConfigFile }>();
+	}
+
+	/**
+	 * Every .editorconfig we have read (keyed by its path).
+	 */
+	protected parsedFiles: Map<string, { mtimeMs: number, content: EditorConfigFile }>;
+
+	/**
+	 * Compute the settings (from .editorconfig files) for a source file.
+	 *
+	 * @returns The settings, or undefined if there is no file, or no .editorconfig section matches it.
+	 */
+	public resolve(filePath: string | undefined): EditorConfigSettings | undefined {
+		if (!filePath)
+			return undefined;
+		const properties = this.resolveProperties(path.resolve(filePath));
+		if (Object.keys(properties).length === 0)
+			return undefined;
+		return toSettings(properties);
+	}
+
+	/**
+	 * The path of every .editorconfig we have read (and cached).
+	 */
+	public cachedFiles(): string[] {
+		return Array.from(this.parsedFiles.keys());
+	}
+
+	/**
+	 * Forget everything we have cached.
+	 */
+	public clear(): void {
+		this.parsedFiles.clear();
+	}
+
+	/**
+	 * The (lowercased) properties of every matching section, outermost .editorconfig first, so that nearer ones win.
+	 */
+	protected resolveProperties(filePath: string): Record<string, string> {
+		const configPaths: string[] = [];
+		let dir = path.dirname(filePath);
+		for (;;) {
+			const candidate = path.join(dir, '.editorconfig');
+			if (fs.existsSync(candidate)) {
+				configPaths.unshift(candidate);
+				if (this.getParsedFile(candidate).root)
+					break;
+			}
+			const parent = path.dirname(dir);
+			if (parent === dir)
+				break;
+			dir = parent;
+		}
+		const result: Record<string, string> = {};
+		configPaths.forEach(configPath => {
+			const relative = path.relative(path.dirname(configPath), filePath).split(path.sep).join('/');
+			this.getParsedFile(configPath).sections.filter(s => matchesGlob(relative, s.glob)).forEach(s => Object.assign(result, s.properties));
+		});
+		return result;
+	}
+
+	protected getParsedFile(configPath: string): EditorConfigFile {
+		const mtimeMs = fs.statSync(configPath).mtimeMs;
+		let parsed = this.parsedFiles.get(configPath);
+		if (!parsed || parsed.mtimeMs !== mtimeMs) {
+			parsed = {mtimeMs, content: parseEditorConfig(fs.readFileSync(configPath, 'utf8'))};
+			this.parsedFiles.set(configPath, parsed);
+		}
+		return parsed.content;
+	}
+}
+
+/**
+ * Parse the INI style text of an .editorconfig (keys and values are lowercased, as the specification requires).
+ */
+function parseEditorConfig(text: string): EditorConfigFile {
+	const result: EditorConfigFile = {root: false, sections: []};
+	let properties: Record<string, string> | undefined;
+	text.split(/\r?\n/).forEach(line => {
+		line = line.trim();
+		if (line === '' || line.startsWith('#') || line.startsWith(';'))
+			return;
+		const section = /^\[(.*)\]$/.exec(line);
+		if (section) {
+			properties = {};
+			result.sections.push({glob: section[1], properties});
+			return;
+		}
+		const match = /^([^=:]+?)\s*[=:]\s*(.*)$/.exec(line);
+		if (!match)
+			return;
+		const key = match[1].toLowerCase();
+		const value = match[2].toLowerCase();
+		if (properties)
+			properties[key] = value;
+		else if (key === 'root')
+			result.root = value === 'true';
+	});
+	return result;
+}
+
+/**
+ * Translate .editorconfig properties into their ts.EditorSettings equivalents (anything unset, or set to 'unset', is left undefined).
+ */
+function toSettings(properties: Record<string, string>): EditorConfigSettings {
+	const format: ts.EditorSettings = {};
+	if (properties.indent_style === 'tab' || properties.indent_style === 'space')
+		format.convertTabsToSpaces = properties.indent_style === 'space';
+	const tabWidth = /^\d+$/.test(properties.tab_width) ? Number(properties.tab_width) : undefined;
+	const indentSize = /^\d+$/.test(properties.indent_size) ? Number(properties.indent_size) : undefined;
+	// As the specification says: indent_size = tab means use the tab_width, and tab_width defaults to the indent_size.
+	if (indentSize !== undefined)
+		format.indentSize = indentSize;
+	else if (properties.indent_size === 'tab' && tabWidth !== undefined)
+		format.indentSize = tabWidth;
+	if (tabWidth !== undefined || indentSize !== undefined)
+		format.tabSize = tabWidth ?? indentSize;
+	const newLines: Record<string, string> = {lf: '\n', crlf: '\r\n', cr: '\r'};
+	if (newLines[properties.end_of_line])
+		format.newLineCharacter = newLines[properties.end_of_line];
+	if (properties.trim_trailing_whitespace === 'true' || properties.trim_trailing_whitespace === 'false')
+		format.trimTrailingWhitespace = properties.trim_trailing_whitespace === 'true';
+	const result: EditorConfigSettings = {format};
+	if (properties.insert_final_newline === 'true' || properties.insert_final_newline === 'false')
+		result.insertFinalNewline = properties.insert_final_newline === 'true';
+	return result;
+}
@@ -0,0 +1,192 @@
+import ts from 'typescript';
+
+/**
+ * Languages we know how to format when they are embedded in a template literal.
+ */
+export type EmbeddedLanguage = 'css' | 'graphql' | 'html' | 'markdown';
+
+/**
+ * Format the text of an embedded language (throws if the text can not be formatted).
+ *
+ * @param indent    The indentation that will be placed in front of each line of the result.
+ */
+export type EmbeddedFormatter = (language: EmbeddedLanguage, text: string, indent: string) => string;
+
+const TagLanguages: Record<string, EmbeddedLanguage> = {
+	css: 'css',
+	html: 'html',
+	gql: 'graphql',
+	graphql: 'graphql',
+	markdown: 'markdown',
+	md: 'markdown'
+};
+
+const CommentLanguages: Record<string, EmbeddedLanguage> = {
+	css: 'css',
+	html: 'html',
+	graphql: 'graphql'
+};
+
+/**
+ * The language embedded in a template literal, recognized (like prettier does) by the tag of the template (e.g. css`...`, gql`...`),
+ * or by a comment immediately in front of an untagged template (e.g. /* GraphQL *\/ `...`).
+ */
+export function embeddedLanguage(node: ts.TemplateLiteral, sourceFile: ts.SourceFile): EmbeddedLanguage | undefined {
+	const parent = node.parent;
+	if (parent && ts.isTaggedTemplateExpression(parent) && parent.template === node)
+		return ts.isIdentifier(parent.tag) ? TagLanguages[ts.idText(parent.tag)] : undefined;
+	// A comment on the same line as the previous token counts as one of its trailing comments.
+	const comments = (ts.getTrailingCommentRanges(sourceFile.text, node.pos) ?? []).concat(ts.getLeadingCommentRanges(sourceFile.text, node.pos) ?? []);
+	if (comments.length === 0)
+		return undefined;
+	const last = comments[comments.length - 1];
+	const match = /^\/\*\s*(\w+)\s*\*\/$/.exec(sourceFile.text.substring(last.pos, last.end));
+	return match ? CommentLanguages[match[1].toLowerCase()] : undefined;
+}
+
+/**
+ * Format the content of every template literal which contains an embedded language (@see embeddedLanguage).
+ * The formatted content starts on the line after the opening backtick, is indented one level deeper than the line the template starts on, and the closing backtick is on a line of its own.
+ * The placeholders (i.e. the ${...} expressions) are preserved exactly as written.
+ * Templates which can not be formatted (e.g. a placeholder is in a position the embedded language does not allow), are left alone.
+ *
+ * @param indentUnit    The text of one level of indentation.
+ * @param spans If specified, only templates which start within these spans are formatted.
+ */
+export function embeddedTemplateEdits(sourceFile: ts.SourceFile, formatEmbedded: EmbeddedFormatter, indentUnit: string, newLine: string, spans?: ts.TextRange[]): ts.TextChange[] {
+	const result: ts.TextChange[] = [];
+	const text = sourceFile.text;
+
+	function visit(node: ts.Node) {
+		if (ts.isNoSubstitutionTemplateLiteral(node) || ts.isTemplateExpression(node)) {
+			const language = embeddedLanguage(node, sourceFile);
+			const start = node.getStart(sourceFile);
+			if (language && (!spans || spans.some(s => s.pos <= start && start < s.end))) {
+				const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+				const baseIndent = /^[ \t]*/.exec(text.substring(lineStart, start))![0];
+				const newText = formatTemplate(node, language, sourceFile, formatEmbedded, baseIndent, indentUnit, newLine);
+				if (newText !== undefined && newText !== text.substring(start, node.end))
+					result.push({span: {start, length: node.end - start}, newText});
+				// Placeholders are preserved exactly as written, so there is no point looking inside them.
+				return;
+			}
+		}
+		ts.forEachChild(node, visit);
+	}
+
+	visit(sourceFile);
+	return result;
+}
+
+/**
+ * The raw text of each part of a template, and the exact text of each placeholder (from '${' to '}') that separates them.
+ */
+function splitTemplate(node: ts.TemplateLiteral, sourceFile: ts.SourceFile): { quasis: string[], placeholders: string[] } {
+	const text = sourceFile.text;
+	if (ts.isNoSubstitutionTemplateLiteral(node))
+		return {quasis: [text.substring(node.getStart(sourceFile) + 1, node.end - 1)], placeholders: []};
+	const quasis = [text.substring(node.head.getStart(sourceFile) + 1, node.head.end - 2)];
+	const placeholders: string[] = [];
+	let prevEnd = node.head.end;
+	node.templateSpans.forEach(span => {
+		const literalStart = span.literal.getStart(sourceFile);
+		placeholders.push(text.substring(prevEnd - 2, literalStart + 1));
+		quasis.push(text.substring(literalStart + 1, span.literal.end - (ts.isTemplateTail(span.literal) ? 1 : 2)));
+		prevEnd = span.literal.end;
+	});
+	return {quasis, placeholders};
+}
+
+/**
+ * Tokens which stand in for the placeholders while the embedded language is formatted (and indented).
+ */
+const PlaceholderTokens: Record<EmbeddedLanguage, (index: number) => string> = {
+	css: i => `@prettier-placeholder-${i}`,
+	html: i => `PRETTIER_HTML_PLACEHOLDER_${i}_IN_JS`,
+	graphql: i => `PRETTIER_GRAPHQL_PLACEHOLDER_${i}`,
+	markdown: i => `PRETTIER_MARKDOWN_PLACEHOLDER_${i}`
+};
+
+/**
+ * The new text of the template (including its backticks), or undefined if it can not be formatted.
+ */
+function formatTemplate(node: ts.TemplateLiteral, language: EmbeddedLanguage, sourceFile: ts.SourceFile, formatEmbedded: EmbeddedFormatter, baseIndent: string, indentUnit: string, newLine: string): string | undefined {
+	const {quasis, placeholders} = splitTemplate(node, sourceFile);
+	if (quasis.join('').trim() === '' && placeholders.length === 0)
+		return '``';
+	const token = PlaceholderTokens[language];
+	let indent = baseIndent + indentUnit;
+	let formatted: string;
+	try {
+		switch (language) {
+			case 'css':
+			case 'html':
+				formatted = formatEmbedded(language, quasis.map((q, i) => i < placeholders.length ? q + token(i) : q).join(''), indent);
+				break;
+			case 'graphql':
+				formatted = formatGraphQL(quasis, token, content => formatEmbedded(language, content, indent));
+				break;
+			case 'markdown': {
+				// Markdown has nowhere for a placeholder to hide.
+				if (placeholders.length > 0)
+					return undefined;
+				// Like prettier, only indent the markdown if it was already indented.
+				if (!/^([^\S\n]*)\S/m.exec(quasis[0])?.[1])
+					indent = '';
+				const unescaped = quasis[0].replace(/((?:\\\\)*)\\`/g, (_, backslashes: string) => '\\'.repeat(backslashes.length / 2) + '`');
+				formatted = formatEmbedded(language, unescaped, indent).replace(/(\\*)`/g, '$1$1\\`');
+				if (/(^|[^\\])\$\{/.test(formatted))
+					return undefined;
+				break;
+			}
+		}
+	}
+	catch {
+		return undefined;
+	}
+	const lines = formatted.trim().split(/\r?\n/).map(line => line.trim() === '' ? '' : indent + line);
+	let result = '`' + newLine + lines.join(newLine) + newLine + baseIndent + '`';
+	// The placeholders go back in only now, so that they are not re-indented.
+	for (let i = 0; i < placeholders.length; i++) {
+		const parts = result.split(new RegExp(`${token(i)}(?!\\d)`));
+		if (parts.length !== 2)
+			return undefined;
+		result = parts.join(placeholders[i]);
+	}
+	return result;
+}
+
+/**
+ * GraphQL has nowhere for a placeholder to hide, so (like prettier) we only support placeholders between definitions.
+ * Each part of the template is formatted separately, and the placeholders are placed on their own lines between them.
+ */
+function formatGraphQL(quasis: string[], token: (index: number) => string, format: (content: string) => string): string {
+	const parts: string[] = [];
+	quasis.forEach((quasi, i) => {
+		const isFirst = i === 0;
+		const isLast = i === quasis.length - 1;
+		const lines = quasi.split(/\r?\n/);
+		const startsWithBlankLine = lines.length > 2 && lines[0].trim() === '' && lines[1].trim() === '';
+		const endsWithBlankLine = lines.length > 2 && lines[lines.length - 1].trim() === '' && lines[lines.length - 2].trim() === '';
+		// A placeholder within a comment would become part of the comment.
+		if (!isLast && /#[^\n\r]*$/.test(lines[lines.length - 1]))
+			throw new Error('Placeholder within a GraphQL comment');
+		let doc: string;
+		if (lines.every(line => /^\s*(?:#[^\n\r]*)?$/.test(line)))
+			doc = lines.map(line => line.trim()).filter(line => line !== '').join('\n');
+		else
+			doc = format(quasi).trim();
+		if (doc) {
+			if (!isFirst && startsWithBlankLine)
+				parts.push('');
+			parts.push(doc);
+			if (!isLast && endsWithBlankLine)
+				parts.push('');
+		}
+		else if (!isFirst && !isLast && startsWithBlankLine)
+			parts.push('');
+		if (!isLast)
+			parts.push(token(i));
+	});
+	return parts.join('\n');
+}
@@ -0,0 +1,48 @@
+import ts from 'typescript';
+
+/**
+ * Location of a problem within the text being formatted.
+ * Lines and columns are 1 based (which is what prettier (and @babel/code-frame) expect).
+ */
+export interface ErrorLocation {
+	start: { line: number, column: number };
+	end?: { line: number, column: number };
+}
+
+/**
+ * An error shaped like the ones thrown by prettier's own parsers.
+ * When prettier sees the 'loc' property, it adds a code frame to the message, reports the file, and leaves it untouched.
+ */
+export interface LocatedError extends SyntaxError {
+	loc: ErrorLocation;
+}
+
+/**
+ * Create a @see LocatedError for the specified range of a source file.
+ */
+export function createError(message: string, sourceFile: ts.SourceFile, start: number, end?: number): LocatedError {
+	const toLoc = (pos: number) => {
+		const lc = sourceFile.getLineAndCharacterOfPosition(pos);
+		return {line: lc.line + 1, column: lc.character + 1};
+	};
+	const loc: ErrorLocation = {start: toLoc(start)};
+	if (typeof end === 'number')
+		loc.end = toLoc(end);
+	const error = new SyntaxError(`${message} (${loc.start.line}:${loc.start.column})`) as LocatedError;
+	error.loc = loc;
+	return error;
+}
+
+/**
+ * Throw a @see LocatedError describing the first syntax error (if any) the TypeScript parser encountered.
+ * NOTE:
+ *  ts.SourceFile.parseDiagnostics is not part of the published typings, but it is exactly what tsc itself reports as syntax errors,
+ *  and (unlike ts.Program.getSyntacticDiagnostics) does not require us to build a ts.Program just to find them.
+ */
+export function throwOnSyntaxError(sourceFile: ts.SourceFile): void {
+	const diagnostics = (sourceFile as any).parseDiagnostics as ts.DiagnosticWithLocation[] | undefined;
+	if (diagnostics && diagnostics.length > 0) {
+		const d = diagnostics[0];
+		throw createError(ts.flattenDiagnosticMessageText(d.messageText, '\n'), sourceFile, d.start, d.start + d.length);
+	}
+}
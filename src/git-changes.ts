@@ -0,0 +1,81 @@
+import {execFileSync} from 'child_process';
+import * as path from 'path';
+import ts from 'typescript';
+
+/**
+ * The ranges (of the text of a file) which have changed since a git revision, according to the local git diff of the file.
+ * NOTE:
+ *  git compares the revision with the file as saved on disk, so the text should be what is on disk (as it is when prettier formats a file).
+ *
+ * @param filePath  The file being formatted.
+ * @param revision  Anything git diff accepts as a revision (e.g. 'origin/main', 'HEAD~3', or a commit hash).
+ * @param text  The text of the file, which the ranges are offsets into.
+ * @returns The changed ranges (empty if nothing changed), or undefined if the file is not in a git repository, or is not tracked by it.
+ * @throws Error if git can not diff the file against the revision (e.g. the revision does not exist, or looks like an option).
+ */
+export function changedRanges(filePath: string, revision: string, text: string): ts.TextRange[] | undefined {
+	// git would take it for an option (e.g. --output=<file>).
+	if (revision.startsWith('-'))
+		throw new Error(`Invalid revision '${revision}' (a revision can not start with '-')`);
+	const cwd = path.dirname(path.resolve(filePath));
+	const fileName = path.basename(filePath);
+	// Usually the diff is all we need, whether the file is tracked at all only matters when the diff is empty (or fails).
+	let diff: string;
+	try {
+		diff = execFileSync('git', ['diff', '--unified=0', '--no-color', '--no-ext-diff', revision, '--', fileName], {cwd, encoding: 'utf8', stdio: ['ignore', 'pipe', 'pipe']});
+	}
+	catch (err) {
+		// Not being in a git repository (or not being tracked by it) is not an error, there is just no history to go by.
+		if (!isTracked(fileName, cwd))
+			return undefined;
+		throw new Error(`Unable to diff ${filePath} against '${revision}': ${((err as { stderr?: string }).stderr || (err as Error).message).trim()}`);
+	}
+	// git diff says nothing about an untracked file (just as it says nothing about an unchanged one).
+	if (diff.length === 0 && !isTracked(fileName, cwd))
+		return undefined;
+	return hunkRanges(diff, text);
+}
+
+/**
+ * True if the file (in the directory) is tracked by a git repository.
+ */
+function isTracked(fileName: string, cwd: string): boolean {
+	return git(['ls-files', '--error-unmatch', '--', fileName], cwd) !== undefined;
+}
+
+/**
+ * Run a git command, returning its output, or undefined if it fails (for any reason, including git not being installed).
+ */
+function git(args: string[], cwd: string): string | undefined {
+	try {
+		return execFileSync('git', args, {cwd, encoding: 'utf8', stdio: ['ignore', 'pipe', 'ignore']});
+	}
+	catch {
+		return undefined;
+	}
+}
+
+/**
+ * Convert the (new file) line numbers of each hunk of a zero context unified diff into ranges of the text.
+ * A hunk which only deletes lines is an empty range at the end of the line the deletion follows (so that the statement around it is still formatted).
+ */
+function hunkRanges(diff: string, text: string): ts.TextRange[] {
+	const lineStarts = [0];
+	for (let i = text.indexOf('\n'); i >= 0; i = text.indexOf('\n', i + 1))
+		lineStarts.push(i + 1);
+	const lineEnd = (line: number) => line < lineStarts.length - 1 ? lineStarts[line + 1] - 1 : text.length;
+	const result: ts.TextRange[] = [];
+	const header = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/gm;
+	for (let match = header.exec(diff); match; match = header.exec(diff)) {
+		// Line numbers are one based (and zero means the deletion was at the very top of the file).
+		const first = Math.min(Number(match[1]), lineStarts.length) - 1;
+		const count = match[2] === undefined ? 1 : Number(match[2]);
+		if (count === 0) {
+			const pos = first < 0 ? 0 : lineEnd(first);
+			result.push({pos, end: pos});
+		}
+		else
+			result.push({pos: lineStarts[first], end: lineEnd(Math.min(first + count - 1, lineStarts.length - 1))});
+	}
+	return result;
+}
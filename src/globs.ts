@@ -0,0 +1,58 @@
+import * as path from 'path';
+
+/**
+ * Like prettier (and .editorconfig), a glob without a '/' is matched against the file's base name, otherwise against its path.
+ *
+ * @param relativePath The path of the file, relative to the directory of the configuration file the globs come from (using '/' separators).
+ */
+export function matchesGlob(relativePath: string, globs: string | string[]): boolean {
+	return (Array.isArray(globs) ? globs : [globs]).some(glob => {
+		const target = glob.includes('/') ? relativePath : path.posix.basename(relativePath);
+		return globToRegExp(glob.replace(/^\.?\//, '')).test(target);
+	});
+}
+
+/**
+ * Convert a glob (supporting '**', '*', '?', '[...]' and '{a,b}') into an equivalent regular expression.
+ */
+function globToRegExp(glob: string): RegExp {
+	let result = '';
+	let braces = 0;
+	for (let i = 0; i < glob.length; i++) {
+		const c = glob[i];
+		if (c === '*') {
+			if (glob[i + 1] === '*') {
+				// '**/' matches zero or more directories, and a trailing '**' matches everything.
+				const slash = glob[i + 2] === '/';
+				result += slash ? '(?:.*/)?' : '.*';
+				i += slash ? 2 : 1;
+			}
+			else
+				result += '[^/]*';
+		}
+		else if (c === '?')
+			result += '[^/]';
+		else if (c === '[') {
+			const end = glob.indexOf(']', i + 1);
+			if (end < 0)
+				result += '\\[';
+			else {
+				result += '[' + glob.substring(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\') + ']';
+				i = end;
+			}
+		}
+		else if (c === '{') {
+			braces++;
+			result += '(?:';
+		}
+		else if (c === '}' && braces > 0) {
+			braces--;
+			result += ')';
+		}
+		else if (c === ',' && braces > 0)
+			result += '|';
+		else
+			result += c.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+	}
+	return new RegExp('^' + result + '$');
+}
@@ -0,0 +1,130 @@
+import ts from 'typescript';
+
+/**
+ * Comments which ask that the next statement, class member, property or JSX element be left exactly as written.
+ */
+const IgnoreComment = /^(\/\/|\/\*)\s*(prettier-ignore|ts-pretty-ignore)\s*(\*\/)?$/;
+
+/**
+ * A comment which asks that the entire file be left exactly as written.
+ */
+const IgnoreFileComment = /^(\/\/|\/\*)\s*ts-pretty-ignore-file\s*(\*\/)?$/;
+
+/**
+ * The original text (and where it starts) of each ignored node, keyed by the name of the placeholder that stands in for it.
+ */
+export type IgnoredNodes = Map<string, { text: string, jsx: boolean, start: number }>;
+
+/**
+ * True if one of the comments at the top of the file (i.e. before any code) is a ts-pretty-ignore-file comment.
+ */
+export function isFileIgnored(text: string): boolean {
+	const start = ts.getShebang(text)?.length ?? 0;
+	return (ts.getLeadingCommentRanges(text, start) ?? []).some(c => IgnoreFileComment.test(text.substring(c.pos, c.end).trim()));
+}
+
+/**
+ * Transformer which replaces each ignored node (one preceded by a prettier-ignore or ts-pretty-ignore comment) with a placeholder identifier.
+ * Neither ts.Printer, nor ts.LanguageService's formatter can be told to leave a node alone, so once they are done, @see restoreIgnoredEdits puts back the original text.
+ * NOTE:
+ *  The placeholder is positioned where the original node was, so the comments in front of it (including the ignore comment itself) are still printed.
+ *
+ * @param ignored   Receives the original text of each node which was replaced.
+ */
+export function ignoreTransformer(sourceFile: ts.SourceFile, ignored: IgnoredNodes): ts.TransformerFactory<ts.Node> {
+	const text = sourceFile.text;
+	// The placeholder names must not clash with anything already in the file.
+	let prefix = '__tsp_ignored_';
+	while (text.includes(prefix))
+		prefix = '_' + prefix;
+
+	function hasIgnoreComment(node: ts.Node): boolean {
+		return (ts.getLeadingCommentRanges(text, node.pos) ?? []).some(c => IgnoreComment.test(text.substring(c.pos, c.end)));
+	}
+
+	/**
+	 * In JSX, the ignore comment is an otherwise empty expression (e.g. {/* prettier-ignore *\/}) in front of the element.
+	 */
+	function isJsxIgnored(node: ts.JsxChild, siblings: ts.NodeArray<ts.JsxChild>): boolean {
+		let index = siblings.indexOf(node) - 1;
+		while (index >= 0 && ts.isJsxText(siblings[index]) && (siblings[index] as ts.JsxText).containsOnlyTriviaWhiteSpaces)
+			index--;
+		const previous = siblings[index];
+		if (!previous || !ts.isJsxExpression(previous) || previous.expression)
+			return false;
+		const inner = text.substring(previous.getStart(sourceFile) + 1, previous.end - 1).trim();
+		return IgnoreComment.test(inner);
+	}
+
+	function placeholderFor(node: ts.Node, jsx: boolean): ts.Identifier {
+		const name = prefix + String(ignored.size);
+		const start = node.getStart(sourceFile);
+		ignored.set(name, {text: text.substring(start, node.end), jsx, start});
+		return ts.factory.createIdentifier(name);
+	}
+
+	return context => {
+		const {factory} = context;
+
+		function replace(node: ts.Node): ts.Node | undefined {
+			const parent = node.parent;
+			if (!parent)
+				return undefined;
+			if (ts.isJsxElement(node) || ts.isJsxSelfClosingElement(node) || ts.isJsxFragment(node)) {
+				if ((ts.isJsxElement(parent) || ts.isJsxFragment(parent)) && isJsxIgnored(node, parent.children))
+					return factory.createJsxExpression(undefined, placeholderFor(node, true));
+				return undefined;
+			}
+			if ((ts.isSourceFile(parent) || ts.isBlock(parent) || ts.isModuleBlock(parent) || ts.isCaseOrDefaultClause(parent)) && parent.statements.includes(node as ts.Statement))
+				return hasIgnoreComment(node) ? factory.createExpressionStatement(placeholderFor(node, false)) : undefined;
+			if (ts.isClassElement(node) && ts.isClassLike(parent))
+				return hasIgnoreComment(node) ? factory.createPropertyDeclaration(undefined, placeholderFor(node, false), undefined, undefined, undefined) : undefined;
+			if (ts.isObjectLiteralElementLike(node) && ts.isObjectLiteralExpression(parent))
+				return hasIgnoreComment(node) ? factory.createShorthandPropertyAssignment(placeholderFor(node, false)) : undefined;
+			if (ts.isTypeElement(node) && (ts.isInterfaceDeclaration(parent) || ts.isTypeLiteralNode(parent)))
+				return hasIgnoreComment(node) ? factory.createPropertySignature(undefined, placeholderFor(node, false), undefined, undefined) : undefined;
+			return undefined;
+		}
+
+		function visit(node: ts.Node): ts.Node {
+			const placeholder = replace(node);
+			if (placeholder)
+				return ts.setOriginalNode(ts.setTextRange(placeholder, node), node);
+			return ts.visitEachChild(node, visit, context);
+		}
+
+		return visit;
+	};
+
+}
+
+/**
+ * The edits which replace each placeholder (@see ignoreTransformer) with the original text of the node it stands in for.
+ * The placeholder of a statement or member may have been given a semicolon, but the original text already has whatever it had.
+ */
+export function restoreIgnoredEdits(text: string, ignored: IgnoredNodes): ts.TextChange[] {
+	const result: ts.TextChange[] = [];
+	ignored.forEach((node, name) => {
+		const match = new RegExp(node.jsx ? `\\{${name}\\}` : `${name}(?!\\w);?`).exec(text);
+		if (match)
+			result.push({span: {start: match.index, length: match[0].length}, newText: node.text});
+	});
+	return result;
+}
+
+/**
+ * The edits which do not touch the text of any ignored node (@see ignoreTransformer).
+ * This is how ignored nodes are left alone when the source file is not printed, but only has its whitespace formatted.
+ * NOTE:
+ *  An edit of the indentation in front of an ignored node is kept, since that positions the node (but not its subsequent lines).
+ */
+export function withoutIgnoredEdits(sourceFile: ts.SourceFile, changes: ReadonlyArray<ts.TextChange>): ts.TextChange[] {
+	const ignored: IgnoredNodes = new Map();
+	ts.transform(sourceFile, [ignoreTransformer(sourceFile, ignored)]).dispose();
+	if (ignored.size === 0)
+		return changes.slice(0);
+	const ranges = Array.from(ignored.values()).map(node => ({pos: node.start, end: node.start + node.text.length}));
+	// An insertion at the very end of the node (e.g. a semicolon) is as much a change to the node as one within it.
+	const touches = (c: ts.TextChange, r: ts.TextRange) => c.span.length > 0 ? c.span.start < r.end && c.span.start + c.span.length > r.pos : c.span.start > r.pos && c.span.start <= r.end;
+	return changes.filter(c => !ranges.some(r => touches(c, r)));
+}
@@ -0,0 +1,116 @@
+import {builtinModules} from 'module';
+import ts from 'typescript';
+
+/**
+ * How module specifiers are compared when sorting the imports within a group.
+ */
+export interface ImportSortOptions {
+	ignoreCase: boolean;
+	collation: 'ordinal' | 'unicode';
+}
+
+/**
+ * Arrange the imports at the top of the file into groups (separated by blank lines).
+ * Each group is described by a pattern, which is either a regular expression (tested against the module specifier), or one of:
+ *  '<builtin>' Node.js builtin modules (e.g. 'fs', 'node:path').
+ *  '<paths>'   Aliases declared by the 'paths' compiler option.
+ *  '<relative>'    Relative paths (e.g. './foo').
+ *  '<external>'    Anything else that is not relative (e.g. packages).
+ * Regular expressions are tried first (in the order given), so they can pick out imports that one of the broader categories would otherwise claim.
+ * Imports that match no group are placed in a final group of their own.
+ * Side-effect imports (e.g. import './polyfills') are never moved, since the order in which they run may matter.
+ * Instead, the imports on either side of them are grouped separately.
+ *
+ * @param sort  If specified, the imports within each group are also sorted (otherwise they keep their current order).
+ */
+export function importGroupEdits(sourceFile: ts.SourceFile, groups: string[], paths: ts.MapLike<string[]> | undefined, newLine: string, sort?: ImportSortOptions): ts.TextChange[] {
+	const text = sourceFile.text;
+	const matchGroup = makeGroupMatcher(groups, paths);
+	const compare = sort ? makeSpecifierComparer(sort) : undefined;
+	const result: ts.TextChange[] = [];
+	let segment: { text: string, specifier: string, index: number }[] = [];
+	let segmentStart = 0;
+	let prevEnd = -1;
+
+	function flush() {
+		if (segment.length > 0) {
+			const grouped = new Map<number, string[]>();
+			segment.slice(0)
+				.sort((a, b) => matchGroup(a.specifier) - matchGroup(b.specifier) || (compare ? compare(a.specifier, b.specifier) : 0) || a.index - b.index)
+				.forEach(imp => {
+					const group = matchGroup(imp.specifier);
+					grouped.set(group, (grouped.get(group) ?? []).concat(imp.text));
+				});
+			const newText = Array.from(grouped.values()).map(g => g.join(newLine)).join(newLine + newLine);
+			const segmentEnd = prevEnd;
+			if (newText !== text.substring(segmentStart, segmentEnd))
+				result.push({span: {start: segmentStart, length: segmentEnd - segmentStart}, newText});
+		}
+		segment = [];
+	}
+
+	for (const statement of sourceFile.statements) {
+		if (!ts.isImportDeclaration(statement) || !ts.isStringLiteral(statement.moduleSpecifier))
+			break;
+		// An import's own comments (those in front of it, and any at the end of its line) move along with it, but a header comment in front of the first import stays put.
+		const start = prevEnd < 0 ? statement.getStart(sourceFile) : prevEnd + /^\s*/.exec(text.substring(prevEnd))![0].length;
+		const trailing = ts.getTrailingCommentRanges(text, statement.end);
+		const end = trailing && trailing.length > 0 ? trailing[trailing.length - 1].end : statement.end;
+		if (!statement.importClause) {
+			flush();
+			prevEnd = end;
+			continue;
+		}
+		if (segment.length === 0)
+			segmentStart = start;
+		segment.push({text: text.substring(start, end).trim(), specifier: statement.moduleSpecifier.text, index: segment.length});
+		prevEnd = end;
+	}
+	flush();
+	return result;
+}
+
+/**
+ * Returns a function which gives the index of the group (@see importGroupEdits) a module specifier belongs to.
+ */
+function makeGroupMatcher(groups: string[], paths: ts.MapLike<string[]> | undefined): (specifier: string) => number {
+	const aliases = Object.keys(paths ?? {}).map(key => new RegExp('^' + key.split('*').map(escapeRegExp).join('.*') + '$'));
+	const isRelative = (specifier: string) => specifier.startsWith('.');
+	const isBuiltin = (specifier: string) => specifier.startsWith('node:') || builtinModules.includes(specifier);
+	const isAlias = (specifier: string) => aliases.some(a => a.test(specifier));
+	const categories: Record<string, (specifier: string) => boolean> = {
+		'<builtin>': isBuiltin,
+		'<paths>': isAlias,
+		'<relative>': isRelative,
+		'<external>': specifier => !isRelative(specifier) && !isBuiltin(specifier) && !isAlias(specifier)
+	};
+	const regexes = groups.map(g => categories[g] ? undefined : new RegExp(g));
+	return specifier => {
+		let index = regexes.findIndex(r => r?.test(specifier));
+		if (index < 0)
+			index = groups.findIndex(g => categories[g]?.(specifier));
+		return index < 0 ? groups.length : index;
+	};
+}
+
+/**
+ * Like ts.OrganizeImports, non-relative module specifiers come before relative ones, and then they are compared according to the sort options.
+ */
+function makeSpecifierComparer(sort: ImportSortOptions): (a: string, b: string) => number {
+	let compareStrings: (a: string, b: string) => number;
+	if (sort.collation === 'unicode')
+		compareStrings = new Intl.Collator(undefined, {sensitivity: sort.ignoreCase ? 'accent' : 'variant', caseFirst: 'upper'}).compare;
+	else if (sort.ignoreCase)
+		compareStrings = (a, b) => compareOrdinal(a.toUpperCase(), b.toUpperCase());
+	else
+		compareStrings = compareOrdinal;
+	return (a, b) => Number(ts.isExternalModuleNameRelative(a)) - Number(ts.isExternalModuleNameRelative(b)) || compareStrings(a, b);
+}
+
+function compareOrdinal(a: string, b: string): number {
+	return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,146 @@
+import * as path from 'path';
+import ts from 'typescript';
+
+/**
+ * How module specifiers which refer to files within the project are written:
+ *  'relative'      Relative to the importing file (e.g. '../../shared/util').
+ *  'non-relative'  Using a tsconfig 'paths' alias (e.g. '@app/shared/util'), or failing that, relative to the 'baseUrl'.
+ *  'shortest'      Whichever of the above is shortest.
+ */
+export type ImportPathStyle = 'relative' | 'non-relative' | 'shortest';
+
+/**
+ * The edits which rewrite the module specifiers of imports, exports, import() (expressions and types) and require() in the preferred style.
+ * A specifier is only rewritten if the new one resolves (using the compiler options) to the very same file as the old one.
+ * Specifiers which can not be resolved, or which resolve to a package (i.e. anything in node_modules), are left alone.
+ * NOTE:
+ *  An explicit extension (e.g. './foo.js'), or an explicit '/index', is kept.
+ *
+ * @param host  Used to resolve modules (must be able to see the files the specifiers refer to).
+ */
+export function importPathEdits(sourceFile: ts.SourceFile, options: ts.CompilerOptions, host: ts.ModuleResolutionHost, style: ImportPathStyle): ts.TextChange[] {
+	const result: ts.TextChange[] = [];
+	const containingFile = sourceFile.fileName;
+
+	// The resolved file name is only absolute if the compiler options (e.g. baseUrl) are.
+	function resolve(specifier: string): ts.ResolvedModuleFull | undefined {
+		const resolved = ts.resolveModuleName(specifier, containingFile, options, host).resolvedModule;
+		return resolved && {...resolved, resolvedFileName: absolutePath(resolved.resolvedFileName)};
+	}
+
+	function rewrite(literal: ts.StringLiteralLike) {
+		const specifier = literal.text;
+		const resolved = resolve(specifier);
+		if (!resolved || resolved.isExternalLibraryImport)
+			return;
+		const target = resolved.resolvedFileName;
+		const candidates = specifierCandidates(specifier, target, containingFile, options).filter(c => resolve(c.specifier)?.resolvedFileName === target);
+		// Look for the shortest specifier of the most preferred kind(s), keeping the current one if nothing (of that kind) is shorter.
+		for (const kinds of PreferredKinds[style]) {
+			const pool = candidates.filter(c => kinds.includes(c.kind)).map(c => c.specifier);
+			if (pool.length === 0)
+				continue;
+			const best = pool.reduce((a, b) => b.length < a.length ? b : a, pool.includes(specifier) ? specifier : pool[0]);
+			if (best !== specifier)
+				result.push({span: {start: literal.getStart(sourceFile) + 1, length: literal.end - literal.getStart(sourceFile) - 2}, newText: best});
+			break;
+		}
+	}
+
+	function visit(node: ts.Node) {
+		if ((ts.isImportDeclaration(node) || ts.isExportDeclaration(node)) && node.moduleSpecifier && ts.isStringLiteral(node.moduleSpecifier))
+			rewrite(node.moduleSpecifier);
+		else if (ts.isExternalModuleReference(node) && ts.isStringLiteral(node.expression))
+			rewrite(node.expression);
+		else if (ts.isImportTypeNode(node) && ts.isLiteralTypeNode(node.argument) && ts.isStringLiteral(node.argument.literal))
+			rewrite(node.argument.literal);
+		else if (ts.isCallExpression(node) && node.arguments.length === 1 && ts.isStringLiteralLike(node.arguments[0])) {
+			if (node.expression.kind === ts.SyntaxKind.ImportKeyword || (ts.isIdentifier(node.expression) && ts.idText(node.expression) === 'require'))
+				rewrite(node.arguments[0]);
+		}
+		ts.forEachChild(node, visit);
+	}
+
+	visit(sourceFile);
+	return result;
+}
+
+/**
+ * How a specifier was derived: relative to the importing file, from a tsconfig 'paths' alias, or relative to the tsconfig 'baseUrl'.
+ */
+type SpecifierKind = 'relative' | 'alias' | 'baseUrl';
+
+/**
+ * For each style, the kinds of specifier to look for, most preferred first (e.g. an alias is preferred over a 'baseUrl' relative specifier).
+ */
+const PreferredKinds: Record<ImportPathStyle, SpecifierKind[][]> = {
+	'relative': [['relative']],
+	'non-relative': [['alias'], ['baseUrl']],
+	'shortest': [['relative', 'alias', 'baseUrl']]
+};
+
+/**
+ * Every way we know of to write a specifier for the target file (not yet confirmed to actually resolve to it).
+ */
+function specifierCandidates(specifier: string, target: string, containingFile: string, options: ts.CompilerOptions): { specifier: string, kind: SpecifierKind }[] {
+	const result: { specifier: string, kind: SpecifierKind }[] = [];
+	// Keep an explicit extension or '/index', otherwise try both with and without the '/index'.
+	const explicitExt = /\.(json|[cm]?[jt]sx?)$/.exec(specifier)?.[0];
+	let stem = target.replace(/(\.d)?\.(json|[cm]?[jt]sx?)$/, '');
+	const tails: string[] = [];
+	if (explicitExt)
+		tails.push(explicitExt);
+	else if (/(^|\/)index$/.test(specifier) || !stem.endsWith('/index'))
+		tails.push('');
+	else {
+		stem = stem.substring(0, stem.length - '/index'.length);
+		tails.push('', '/index');
+	}
+	tails.forEach(tail => {
+		const file = stem + tail;
+		let relative = toPosix(path.relative(path.dirname(containingFile), file));
+		if (!relative.startsWith('.'))
+			relative = './' + relative;
+		result.push({specifier: relative, kind: 'relative'});
+		// NOTE: pathsBasePath is what the compiler itself uses (when there is no baseUrl) to resolve 'paths', it is just not part of the public typings.
+		const pathsBase = options.baseUrl ?? (options as { pathsBasePath?: string }).pathsBasePath;
+		if (options.paths && pathsBase) {
+			Object.keys(options.paths).forEach(key => {
+				options.paths![key].forEach(substitution => {
+					const alias = applyPathMapping(key, toPosix(path.resolve(pathsBase, substitution)), file);
+					if (alias)
+						result.push({specifier: alias, kind: 'alias'});
+				});
+			});
+		}
+		if (options.baseUrl) {
+			const fromBase = toPosix(path.relative(options.baseUrl, file));
+			if (!fromBase.startsWith('.'))
+				result.push({specifier: fromBase, kind: 'baseUrl'});
+		}
+	});
+	return result;
+}
+
+/**
+ * Reverse a 'paths' mapping (e.g. key '@app/*' with substitution '/project/src/*'), to find the alias of a file (e.g. '/project/src/util' => '@app/util').
+ */
+function applyPathMapping(key: string, substitution: string, file: string): string | undefined {
+	const star = substitution.indexOf('*');
+	if (star < 0)
+		return substitution.replace(/(\.d)?\.(json|[cm]?[jt]sx?)$/, '') === file && !key.includes('*') ? key : undefined;
+	const prefix = substitution.substring(0, star);
+	const suffix = substitution.substring(star + 1);
+	if (!file.startsWith(prefix) || !file.endsWith(suffix) || file.length < prefix.length + suffix.length)
+		return undefined;
+	const matched = file.substring(prefix.length, file.length - suffix.length);
+	return key.includes('*') ? key.replace('*', matched) : undefined;
+}
+
+function toPosix(fileName: string): string {
+	return fileName.split(path.sep).join('/');
+}
+
+function absolutePath(fileName: string): string {
+	return toPosix(path.resolve(fileName));
+}
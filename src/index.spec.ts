@@ -1,6 +1,8 @@
+import {execFileSync} from 'child_process';
 import * as fs from 'fs';
 import * as os from 'os';
-import {format} from 'prettier';
+import * as path from 'path';
+import {format, formatWithCursor} from 'prettier';
 
 /**
  * Pretty basic unit tests, but they cover most of the ts-pretty plugin functionality.
@@ -85,4 +87,425 @@ describe('ts-pretty', () => {
 		else
 			expect(/\r\n/.test(optimized)).toBeTrue();
 	});
+
+	it('should produce the same output whether or not the project cache is warm', () => {
+		const tsInput = fs.readFileSync('./fixtures/input/ts-sample.ts', 'utf8');
+		const jsInput = fs.readFileSync('./fixtures/input/js-sample.js', 'utf8');
+		const opts = {
+			tspOrganizeImports: true,
+			tspTsConfig: './tsconfig.app.json',
+			parser: 'typescript',
+			plugins: [require('../src')]
+		} as any;
+		const first = format(tsInput, opts);
+		format(jsInput, opts);
+		const second = format(tsInput, opts);
+		expect(second).toEqual(first);
+	});
+
+	it('should report syntax errors instead of formatting', () => {
+		const input = 'function foo(value: string {\n\treturn value;\n}\n';
+		const opts = {
+			tspTsConfig: 'ignore',
+			parser: 'typescript',
+			plugins: [require('../src')]
+		} as any;
+		let error: any;
+		try {
+			format(input, opts);
+		}
+		catch (err) {
+			error = err;
+		}
+		expect(error).toBeInstanceOf(SyntaxError);
+		expect(error.loc.start).toEqual({line: 1, column: 28});
+		expect(error.message).toContain('\',\' expected.');
+		expect(error.codeFrame).toBeDefined();
+		expect(() => format(input, {...opts, tspAllowSyntaxErrors: true})).not.toThrow();
+	});
+
+	it('should verify that formatting did not change the code', () => {
+		['./fixtures/input/ts-sample.ts', './fixtures/input/js-sample.js'].forEach(inputPath => {
+			const input = fs.readFileSync(inputPath, 'utf8');
+			expect(() => format(input, {
+				tspVerify: true,
+				tspOrganizeImports: true,
+				singleQuote: true,
+				parser: 'typescript',
+				plugins: [require('../src')]
+			} as any)).not.toThrow();
+		});
+	});
+
+	it('should pick the quote which needs the fewest escapes', () => {
+		const input = 'import {a} from "./a";\ntype T = import("./t").T;\nconst s = ["plain", "it\'s", \'say "hi"\', "caf\\u00e9"];\nconst e = <div title="x" alt=\'"q"\'/>;\n';
+		const opts = {
+			tspTsConfig: 'ignore',
+			singleQuote: true,
+			filepath: 'quotes.tsx',
+			parser: 'typescript',
+			plugins: [require('../src')]
+		} as any;
+		const txt = format(input, opts);
+		expect(txt).toContain('from \'./a\';');
+		expect(txt).toContain('import(\'./t\')');
+		expect(txt).toContain('[ \'plain\', "it\'s", \'say "hi"\', "caf\\u00e9" ]'); // ts.Printer can not reproduce the escape, so that literal is left alone.
+		expect(txt).toContain('title="x" alt=\'"q"\'');
+		const jsx = format(input, {...opts, singleQuote: false, jsxSingleQuote: true});
+		expect(jsx).toContain('from "./a";');
+		expect(jsx).toContain('title=\'x\' alt=\'"q"\'');
+	});
+
+	it('should apply quoteProps and optionally normalize literals', () => {
+		const input = 'const o = {\'a\': 0XFF, b: 1.50E+10, \'c-d\': .5};\ninterface I {\'e\': string; f: number;}\nconst s = \'\\d\\\'\';\n';
+		const opts = {
+			tspTsConfig: 'ignore',
+			singleQuote: true,
+			useTabs: true,
+			parser: 'typescript',
+			plugins: [require('../src')]
+		} as any;
+		const asNeeded = format(input, opts);
+		expect(asNeeded).toContain('const o = { a: 0XFF, b: 1.50E+10, \'c-d\': .5 };');
+		expect(asNeeded).toContain('\te: string;');
+		expect(asNeeded).toContain('const s = \'\\d\\\'\';');
+		const consistent = format(input, {...opts, quoteProps: 'consistent', tspNormalizeLiterals: true});
+		expect(consistent).toContain('const o = { \'a\': 0xFF, \'b\': 1.5e10, \'c-d\': 0.5 };');
+		expect(consistent).toContain('\tf: number;');
+		expect(consistent).toContain('const s = "d\'";');
+		expect(format(input, {...opts, quoteProps: 'preserve'})).toContain('{ \'a\': 0XFF, b: 1.50E+10');
+	});
+
+	it('should format the languages embedded in template literals', () => {
+		const input = 'function f() {\n\tconst styles = css`display:flex;color:${ color };`;\n\tconst q = /* GraphQL */ `query { user(id: 1) { name } }`;\n\tconst h = html`<div class=${cls}>`;\n\tconst bad = css`{{{`;\n}\n';
+		const opts = {
+			tspTsConfig: 'ignore',
+			tspVerify: true,
+			useTabs: true,
+			parser: 'typescript',
+			plugins: [require('../src')]
+		} as any;
+		const txt = format(input, opts);
+		expect(txt).toContain('\tconst styles = css`\n\t\tdisplay: flex;\n\t\tcolor: ${color};\n\t`;\n');
+		expect(txt).toContain('\tconst q = /* GraphQL */ `\n\t\tquery {\n\t\t\tuser(id: 1) {\n\t\t\t\tname\n\t\t\t}\n\t\t}\n\t`;\n');
+		expect(txt).toContain('\tconst h = html`\n\t\t<div class="${cls}"></div>\n\t`;\n');
+		expect(txt).toContain('css`{{{`'); // Invalid css is left alone.
+		expect(format(input, {...opts, embeddedLanguageFormatting: 'off'})).toContain('css`display:flex;color:${color};`');
+	});
+
+	it('should organize imports into groups', () => {
+		const input = '// header\nimport {b} from \'./b\';\nimport fs from \'fs\';\nimport {Z} from \'zed\';\nimport {a} from \'alpha\';\nimport {u} from \'unused\';\nimport \'./polyfill\';\n\nconsole.log(b, fs, Z, a);\n';
+		const opts = {
+			tspTsConfig: 'ignore',
+			tspOrganizeImports: true,
+			tspVerify: true,
+			singleQuote: true,
+			parser: 'typescript',
+			plugins: [require('../src')]
+		} as any;
+		const grouped = format(input, {...opts, tspImportGroups: ['<builtin>', '<external>', '<relative>']});
+		expect(grouped).toContain('// header\nimport fs from \'fs\';\n\nimport { a } from \'alpha\';\nimport { Z } from \'zed\';\n\nimport { b } from \'./b\';\n');
+		expect(grouped).not.toContain('unused');
+		const removeOnly = format(input, {...opts, tspOrganizeImportsMode: 'RemoveUnused'});
+		expect(removeOnly).toContain('import { b } from \'./b\';\nimport fs from \'fs\';\n');
+		expect(removeOnly).not.toContain('unused');
+		expect(format(input, {...opts, tspOrganizeImportsMode: 'SortAndCombine'})).toContain('import { u } from \'unused\';');
+	});
+
+	it('should apply the requested code fixes', () => {
+		const input = 'async function f() {\n\treturn 1;\n}\nfunction g() {\n\tconst unused = 1;\n\tawait f();\n}\n';
+		const opts = {
+			tspTsConfig: 'ignore',
+			useTabs: true,
+			parser: 'typescript',
+			plugins: [require('../src')]
+		} as any;
+		expect(format(input, {...opts, tspCodeFixes: ['fixAwaitInSyncFunction', 'unusedIdentifier_delete']})).toContain('async function g() {\n\tawait f();\n}\n');
+		expect(format(input, opts)).toContain('function g() {\n\tconst unused = 1;');
+		expect(() => format(input, {...opts, tspCodeFixes: ['noSuchFix']})).toThrowError(/noSuchFix/);
+	});
+
+	it('should convert imports and exports which are only used as types', () => {
+		const input = 'import {Shape, Circle, unit} from \'./type-exports\';\nimport {Circle as Round} from \'./type-exports\';\nexport {Shape as Outline, Circle} from \'./type-exports\';\nconst s: Shape = new Circle(unit);\nlet r: Round;\n';
+		const opts = {
+			tspTsConfig: 'ignore',
+			singleQuote: true,
+			filepath: './fixtures/input/type-imports.ts',
+			parser: 'typescript',
+			plugins: [require('../src')]
+		} as any;
+		const topLevel = format(input, {...opts, tspTypeImports: 'top-level'});
+		expect(topLevel).toContain('import { Circle, unit } from \'./type-exports\';\nimport type { Shape } from \'./type-exports\';\nimport type { Circle as Round } from \'./type-exports\';\n');
+		expect(topLevel).toContain('export { Circle } from \'./type-exports\';\nexport type { Shape as Outline } from \'./type-exports\';\n');
+		const inline = format(input, {...opts, tspTypeImports: 'inline'});
+		expect(inline).toContain('import { type Shape, Circle, unit } from \'./type-exports\';\nimport type { Circle as Round } from \'./type-exports\';\n');
+		expect(inline).toContain('export { type Shape as Outline, Circle } from \'./type-exports\';\n');
+		// Nothing is changed if a module can not be resolved.
+		expect(format(input.replace('./type-exports', './missing'), {...opts, tspTypeImports: 'top-level'})).toContain('import { Circle as Round } from \'./type-exports\';');
+		// A declaration with comments is marked inline instead (rather than rebuilt without them).
+		expect(format(input.replace('{Shape, Circle', '{Shape, /* keep me */ Circle'), {...opts, tspTypeImports: 'top-level'})).toContain('import { type Shape, /* keep me */ Circle, unit } from \'./type-exports\';\n');
+		// Globals (from the default library) resolve.
+		expect(format(input + 'console.log(JSON.stringify(s));\n', {...opts, tspTypeImports: 'top-level'})).toContain('import type { Shape } from \'./type-exports\';');
+		// Nor if any other name can not be resolved.
+		expect(format(input + 'console.log(missingName);\n', {...opts, tspTypeImports: 'top-level'})).toContain('import { Shape, Circle, unit } from \'./type-exports\';\nimport { Circle as Round } from \'./type-exports\';\nexport { Shape as Outline, Circle } from \'./type-exports\';\n');
+	});
+
+	it('should rewrite import paths in the preferred style', () => {
+		const input = 'import {double} from \'../../shared/util\';\nimport {half} from \'@app/feature/helper\';\nimport {x} from \'./missing\';\nconst req = require(\'src/feature/helper\');\n';
+		const opts = {
+			tspTsConfig: './fixtures/input/paths/tsconfig.json',
+			filepath: './fixtures/input/paths/src/feature/deep/main.ts',
+			singleQuote: true,
+			parser: 'typescript',
+			plugins: [require('../src')]
+		} as any;
+		expect(format(input, {...opts, tspImportPaths: 'non-relative'})).toEqual('import { double } from \'@app/shared/util\';\nimport { half } from \'@app/feature/helper\';\nimport { x } from \'./missing\';\nconst req = require(\'@app/feature/helper\');\n');
+		expect(format(input, {...opts, tspImportPaths: 'relative'})).toEqual('import { double } from \'../../shared/util\';\nimport { half } from \'../helper\';\nimport { x } from \'./missing\';\nconst req = require(\'../helper\');\n');
+		expect(format(input, {...opts, tspImportPaths: 'shortest'})).toContain('import { double } from \'src/shared/util\';\nimport { half } from \'../helper\';\n');
+		// import() types too.
+		expect(format('type Util = typeof import(\'../../shared/util\');\n', {...opts, tspImportPaths: 'non-relative'})).toEqual('type Util = typeof import(\'@app/shared/util\');\n');
+	});
+
+	it('should use the .editorconfig settings for the file', () => {
+		const input = 'function f() {\nreturn 1;\n}\n';
+		const opts = {
+			tspTsConfig: 'ignore',
+			useTabs: true,
+			parser: 'typescript',
+			plugins: [require('../src')]
+		} as any;
+		// An explicit prettier option wins over .editorconfig (just as it does in prettier itself).
+		expect(format(input, {...opts, filepath: './fixtures/editorconfig/src/main.ts'})).toEqual('function f() {\n\treturn 1;\n}\n');
+		expect(format(input, {...opts, filepath: './fixtures/editorconfig/legacy/old.js'})).toEqual('function f() {\n\treturn 1;\n}');
+		expect(format(input, {...opts, filepath: './fixtures/editorconfig/legacy/old.js', tspEditorConfig: false})).toEqual('function f() {\n\treturn 1;\n}\n');
+		// Without prettier, nothing else sets the indentation.
+		const {formatText} = require('../src');
+		expect(formatText(input, {fileName: './fixtures/editorconfig/src/main.ts', tsConfig: 'ignore'}).text).toEqual('function f() {\n   return 1;\n}\n');
+		expect(formatText(input, {fileName: './fixtures/editorconfig/src/main.ts', tsConfig: 'ignore', useTabs: true}).text).toEqual('function f() {\n\treturn 1;\n}\n');
+	});
+
+	it('should start from the requested preset', () => {
+		const input = 'function f(a:number) {\nif (a) {\nreturn {x:a};\n}\n}\n';
+		const opts = {
+			tspTsConfig: 'ignore',
+			useTabs: true,
+			parser: 'typescript',
+			plugins: [require('../src')]
+		} as any;
+		expect(format(input, opts)).toEqual('function f(a: number) {\n\tif (a) {\n\t\treturn { x: a };\n\t}\n}\n');
+		expect(format(input, {...opts, tspPreset: 'allman'})).toEqual('function f(a: number)\n{\n\tif (a)\n\t{\n\t\treturn { x: a };\n\t}\n}\n');
+		expect(format(input, {...opts, tspPreset: './fixtures/presets/braces.js'})).toEqual('function f (a: number)\n{\n\tif (a) {\n\t\treturn { x: a };\n\t}\n}\n');
+		expect(() => format(input, {...opts, tspPreset: 'no-such-preset'})).toThrowError(/Unknown tspPreset 'no-such-preset'/);
+		expect(() => format(input, {...opts, tspPreset: './fixtures/presets/overrides.js'})).toThrowError(/Invalid tspPreset '.*overrides.js': "overrides" can only be given in a ts-format.json/);
+	});
+
+	it('should leave ignored nodes exactly as written', () => {
+		const input = '// prettier-ignore\nconst matrix = [\n  1, 0,\n  0, 1\n];\nconst   b  =  2;\nclass C {\n\t// ts-pretty-ignore\n\tfoo(  a ,b ) {  return a+b }\n\tbar(  a ) { return a }\n}\n';
+		const opts = {
+			tspTsConfig: 'ignore',
+			tspVerify: true,
+			useTabs: true,
+			parser: 'typescript',
+			plugins: [require('../src')]
+		} as any;
+		const txt = format(input, opts);
+		expect(txt).toContain('// prettier-ignore\nconst matrix = [\n  1, 0,\n  0, 1\n];\nconst b = 2;\n');
+		expect(txt).toContain('\t// ts-pretty-ignore\n\tfoo(  a ,b ) {  return a+b }\n\tbar(a) { return a; }\n');
+		expect(format('// ts-pretty-ignore-file\nconst   a = 1;\n', opts)).toEqual('// ts-pretty-ignore-file\nconst   a = 1;\n');
+		expect(format('const   a = 1;\n', {...opts, requirePragma: true})).toEqual('const   a = 1;\n');
+		expect(format('/**\n * Hello\n */\nconst   a = 1;\n', {...opts, insertPragma: true})).toEqual('/**\n * Hello\n *\n * @format\n */\nconst a = 1;\n');
+		expect(format('const   a = 1;\n', {...opts, insertPragma: true})).toEqual('/** @format */\nconst a = 1;\n');
+	});
+
+	it('should format text without prettier', () => {
+		const {formatText} = require('../src');
+		const input = 'import {b, a} from \'./x\';\nconst c = 1;\nfunction foo( value:number ) {\nreturn   value+a+b+c;\n}\n';
+		const result = formatText(input, {tsConfig: 'ignore', organizeImports: true, singleQuote: true, formatSettings: {convertTabsToSpaces: true, indentSize: 2}});
+		expect(result.text).toEqual('import { a, b } from \'./x\';\nconst c = 1;\nfunction foo(value: number) {\n  return value + a + b + c;\n}\n');
+		// One edit for the import, and another for the function (the line in between is unchanged).
+		expect(result.edits.length).toEqual(2);
+		expect(result.cursorOffset).toBeUndefined();
+		const ranged = formatText(input, {tsConfig: 'ignore', range: {pos: input.indexOf('return'), end: input.indexOf('return') + 6}, cursorOffset: input.indexOf('value+')});
+		expect(ranged.text).toEqual(input.replace('return   value+a+b+c;', '\treturn value + a + b + c;'));
+		expect(ranged.cursorOffset).toEqual(ranged.text.indexOf('value + a'));
+	});
+
+	it('should notice a dependency changing between formats of a cached project', () => {
+		const {formatText} = require('../src');
+		const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tsp-'));
+		try {
+			const input = 'import {Bar} from \'./b\';\nexport const x: Bar = {};\n';
+			const dependency = path.join(dir, 'b.ts');
+			fs.writeFileSync(dependency, 'export const y = 1;\n');
+			const opts = {fileName: path.join(dir, 'a.ts'), tsConfig: 'ignore', tspTypeImports: 'top-level', singleQuote: true};
+			expect(formatText(input, opts).text).toEqual('import { Bar } from \'./b\';\nexport const x: Bar = {};\n');
+			fs.writeFileSync(dependency, 'export const y = 1;\nexport interface Bar {\n}\n');
+			// Make sure the modification time changes, however coarse the file system's clock.
+			const later = new Date(Date.now() + 10000);
+			fs.utimesSync(dependency, later, later);
+			expect(formatText(input, opts).text).toEqual('import type { Bar } from \'./b\';\nexport const x: Bar = {};\n');
+		}
+		finally {
+			fs.rmSync(dir, {recursive: true, force: true});
+		}
+	});
+
+	it('should only format the lines changed since a git revision', () => {
+		const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tsp-'));
+		const git = (...args: string[]) => execFileSync('git', ['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args], {cwd: dir, stdio: 'ignore'});
+		try {
+			const original = 'const   a  =  1;\nfunction foo( value:number ) {\n\treturn   value;\n}\nlet   c=2;\n';
+			const changed = original.replace('return   value;', 'return   value+1;');
+			const filepath = path.join(dir, 'tracked.ts');
+			fs.writeFileSync(filepath, original);
+			git('init', '-q');
+			git('add', '.');
+			git('commit', '-q', '-m', 'initial');
+			fs.writeFileSync(filepath, changed);
+			const opts = {
+				filepath,
+				tspChangedSince: 'HEAD',
+				tspTsConfig: 'ignore',
+				useTabs: true,
+				parser: 'typescript',
+				plugins: [require('../src')]
+			} as any;
+			expect(format(changed, opts)).toEqual(changed.replace('return   value+1;', 'return value + 1;'));
+			// An untracked file has no history, so all of it is formatted.
+			const untracked = path.join(dir, 'untracked.ts');
+			fs.writeFileSync(untracked, changed);
+			expect(format(changed, {...opts, filepath: untracked})).toEqual('const a = 1;\nfunction foo(value: number) {\n\treturn value + 1;\n}\nlet c = 2;\n');
+			expect(() => format(changed, {...opts, tspChangedSince: 'no-such-revision'})).toThrowError(/Unable to diff .* against 'no-such-revision'/);
+			expect(() => format(changed, {...opts, tspChangedSince: '--output=' + path.join(dir, 'out.txt')})).toThrowError(/Invalid revision/);
+			expect(fs.existsSync(path.join(dir, 'out.txt'))).toBeFalse();
+		}
+		finally {
+			fs.rmSync(dir, {recursive: true, force: true});
+		}
+	});
+
+	it('should only format whitespace (and semicolons) in whitespace mode', () => {
+		const input = 'const x = (1 + 2) * 3\nconst s = "double"\nfunction f(  a:number,\n    b:number ) {\nreturn a+b\n}\n// prettier-ignore\nconst   m = [1,0,\n     0,1]\n';
+		const opts = {
+			tspTsConfig: 'ignore',
+			tspMode: 'whitespace',
+			tspVerify: true,
+			useTabs: true,
+			singleQuote: true,
+			trailingComma: 'all',
+			parser: 'typescript',
+			plugins: [require('../src')]
+		} as any;
+		expect(format(input, opts)).toEqual('const x = (1 + 2) * 3;\nconst s = "double";\nfunction f(a: number,\n\tb: number) {\n\treturn a + b;\n}\n// prettier-ignore\nconst   m = [1,0,\n     0,1]\n');
+		const rangeStart = input.indexOf('return');
+		expect(format(input, {...opts, rangeStart, rangeEnd: rangeStart + 6})).toEqual(input.replace('return a+b', '\treturn a + b;'));
+	});
+
+	it('should only format the statements which overlap the range', () => {
+		const input = 'const   a  =  1;\nfunction foo( value:number ) {\n\tconst   b=value+1;   // keep\n\treturn   b;\n}\nlet   c=2;\n';
+		const rangeStart = input.indexOf('const   b');
+		const txt = format(input, {
+			rangeStart,
+			rangeEnd: rangeStart + 5,
+			useTabs: true,
+			tspTsConfig: 'ignore',
+			parser: 'typescript',
+			plugins: [require('../src')]
+		} as any);
+		expect(txt).toEqual('const   a  =  1;\nfunction foo( value:number ) {\n\tconst b = value + 1;   // keep\n\treturn   b;\n}\nlet   c=2;\n');
+	});
+
+	it('should map the cursor through the formatting changes', () => {
+		const input = 'const   a  =  1;\nfunction foo( value:number ) {\n\treturn   value+a;\n}\n';
+		const opts = {
+			useTabs: true,
+			tspTsConfig: 'ignore',
+			parser: 'typescript',
+			plugins: [require('../src')]
+		} as any;
+		let result = formatWithCursor(input, {...opts, cursorOffset: input.indexOf('value+a')});
+		expect(result.formatted.substring(result.cursorOffset)).toMatch(/^value \+ a;/);
+		result = formatWithCursor(input, {...opts, cursorOffset: input.length});
+		expect(result.cursorOffset).toEqual(result.formatted.length);
+		// The cursor is outside of the formatted range.
+		const rangeStart = input.indexOf('return');
+		result = formatWithCursor(input, {...opts, rangeStart, rangeEnd: rangeStart + 6, cursorOffset: 2});
+		expect(result.formatted).toEqual('const   a  =  1;\nfunction foo( value:number ) {\n\treturn value + a;\n}\n');
+		expect(result.cursorOffset).toEqual(2);
+	});
+
+	it('should break lines which are wider than printWidth', () => {
+		const input = 'function foo(firstParameter: string, secondParameter: number) {\n\treturn bar(firstParameter, secondParameter).then(x => x).catch(e => e);\n}\n';
+		const opts = {
+			useTabs: true,
+			tabWidth: 4,
+			arrowParens: 'avoid',
+			tspTsConfig: 'ignore',
+			parser: 'typescript',
+			plugins: [require('../src')]
+		} as any;
+		expect(format(input, {...opts, printWidth: 100})).toEqual(input);
+		expect(format(input, {...opts, printWidth: 60})).toEqual([
+			'function foo(',
+			'\tfirstParameter: string,',
+			'\tsecondParameter: number',
+			') {',
+			'\treturn bar(firstParameter, secondParameter)',
+			'\t\t.then(x => x)',
+			'\t\t.catch(e => e);',
+			'}',
+			''
+		].join('\n'));
+		// A comment in front of an element moves to the new line along with it.
+		expect(format('foo(firstArgument, secondArgument, /* comment */ thirdArgument, fourthArgument);\n', {...opts, printWidth: 60})).toEqual([
+			'foo(',
+			'\tfirstArgument,',
+			'\tsecondArgument,',
+			'\t/* comment */ thirdArgument,',
+			'\tfourthArgument',
+			');',
+			''
+		].join('\n'));
+	});
+
+	it('should apply the trailingComma and arrowParens options', () => {
+		const input = 'enum Color { Red, Green }\nconst handlers = {\n\tred: (c) => c, green: c => c, blue: async (c) => c };\nconst pair = [1, 2,];\nfunction foo(firstParameter: string, secondParameter: number, ...rest: number[]) {\n\treturn bar(firstParameter, secondParameter);\n}\n';
+		const opts = {
+			useTabs: true,
+			printWidth: 60,
+			tspTsConfig: 'ignore',
+			parser: 'typescript',
+			plugins: [require('../src')]
+		} as any;
+		expect(format(input, {...opts, trailingComma: 'none', arrowParens: 'avoid'})).toEqual([
+			'enum Color {',
+			'\tRed,',
+			'\tGreen',
+			'}',
+			'const handlers = {',
+			'\tred: c => c, green: c => c, blue: async c => c',
+			'};',
+			'const pair = [ 1, 2 ];',
+			'function foo(',
+			'\tfirstParameter: string,',
+			'\tsecondParameter: number,',
+			'\t...rest: number[]',
+			') {',
+			'\treturn bar(firstParameter, secondParameter);',
+			'}',
+			''
+		].join('\n'));
+		const es5 = format(input, {...opts, trailingComma: 'es5', arrowParens: 'always'});
+		expect(es5).toContain('\tGreen,\n}');
+		expect(es5).toContain('\tred: (c) => c, green: (c) => c, blue: async (c) => c,\n};');
+		expect(es5).toContain('\t...rest: number[]\n) {');
+		const all = format(input.replace(', ...rest: number[]', ', thirdParameter: number'), {...opts, trailingComma: 'all'});
+		expect(all).toContain('\tthirdParameter: number,\n) {');
+		// The comma goes before a comment which follows the last element (not on a line of its own after it).
+		expect(format('const x = [\n\t1,\n\t2 // two\n];\n', {...opts, trailingComma: 'es5'})).toEqual('const x = [\n\t1,\n\t2, // two\n];\n');
+		expect(format('const x = {\n\ta: 1,\n\tb: 2 // two\n};\n', {...opts, trailingComma: 'all'})).toEqual('const x = {\n\ta: 1,\n\tb: 2, // two\n};\n');
+		const generic = 'function pick<FirstTypeParameter extends object, SecondTypeParameter extends keyof FirstTypeParameter>(o: FirstTypeParameter, k: SecondTypeParameter) {\n\treturn o[k];\n}\n';
+		expect(format(generic, {...opts, trailingComma: 'all'})).toContain('function pick<\n\tFirstTypeParameter extends object,\n\tSecondTypeParameter extends keyof FirstTypeParameter,\n>(o: FirstTypeParameter, k: SecondTypeParameter) {');
+		expect(format(generic, {...opts, trailingComma: 'es5'})).toContain('\tSecondTypeParameter extends keyof FirstTypeParameter\n>(');
+	});
 });
@@ -2,51 +2,40 @@
 
 import {randomUUID} from 'crypto';
 import * as fs from 'fs';
-import {parse as json5Parse} from 'json5';
 import cloneDeep from 'lodash/cloneDeep';
 import merge from 'lodash/merge';
-import * as os from 'os';
 import * as path from 'path';
-import type {Parser, Printer} from 'prettier';
-import {AstPath, Doc, format, ParserOptions, SupportOption} from 'prettier';
+import type {AstPath, Doc, Options, Parser, ParserOptions, Printer, SupportOption} from 'prettier';
 import ts from 'typescript';
+import {arrowParensTransformer, asyncArrowParensEdits} from './arrow-parens';
 import {CustCompilerHost} from './cust-compiler-host';
-import {CustLangServiceHost} from './cust-lang-service-host';
+import {textEdits} from './diff';
+import {EditorConfigResolver, EditorConfigSettings} from './editorconfig-resolver';
+import {EmbeddedLanguage, embeddedTemplateEdits} from './embedded';
+import {throwOnSyntaxError} from './errors';
+import {changedRanges} from './git-changes';
+import {IgnoredNodes, ignoreTransformer, isFileIgnored, restoreIgnoredEdits, withoutIgnoredEdits} from './ignore';
+import {importGroupEdits} from './import-groups';
+import {importPathEdits} from './import-paths';
+import {findLineBreak} from './line-breaks';
+import {numericLiteralTransformer} from './literals';
+import {hasPragma, insertPragma} from './pragma';
+import {resolvePreset} from './presets';
+import {builtinPlugins, builtinPluginsOnly, prettier2Format, prettier3Format, Prettier3Parser, prettierMajor} from './prettier-compat';
+import {ProjectCache} from './project-cache';
+import {quotePropsTransformer} from './quote-props';
+import {quoteTransformer} from './quotes';
+import {findEnclosingStatements} from './ranges';
+import {changedSpans, mapOffset} from './text-changes';
+import {trailingCommaEdits, trailingCommaTransformer} from './trailing-commas';
+import {TsConfigResolver} from './tsconfig-resolver';
+import {TsFormatResolver} from './ts-format-resolver';
+import {typeImportEdits} from './type-imports';
+import {verifyRoundTrip} from './verify';
 
-
-/**
- * Declare a fallback set of formatting options that are appealing to me personally :-)
- */
-const DefaultFormatCodeSettings: ts.FormatCodeSettings = {
-	baseIndentSize: 0,
-	newLineCharacter: os.EOL,
-	// Space takes up at least twice as much disk space as a tab :-)
-	// If you really want to see two 'spaces', use a tab and set indentSize/width to 2 in your editor
-	convertTabsToSpaces: false,
-	tabSize: 1,
-	indentSize: 1,
-	indentStyle: ts.IndentStyle.Smart,
-	trimTrailingWhitespace: true,
-	insertSpaceAfterCommaDelimiter: true,
-	insertSpaceAfterSemicolonInForStatements: true,
-	insertSpaceBeforeAndAfterBinaryOperators: true,
-	insertSpaceAfterConstructor: true,
-	insertSpaceAfterKeywordsInControlFlowStatements: true,
-	insertSpaceAfterFunctionKeywordForAnonymousFunctions: true,
-	insertSpaceAfterOpeningAndBeforeClosingNonemptyParenthesis: false,
-	insertSpaceAfterOpeningAndBeforeClosingNonemptyBrackets: false,
-	insertSpaceAfterOpeningAndBeforeClosingNonemptyBraces: true,
-	insertSpaceAfterOpeningAndBeforeClosingEmptyBraces: false,
-	insertSpaceAfterOpeningAndBeforeClosingTemplateStringBraces: false,
-	insertSpaceAfterOpeningAndBeforeClosingJsxExpressionBraces: false,
-	insertSpaceAfterTypeAssertion: true,
-	insertSpaceBeforeFunctionParenthesis: false,
-	placeOpenBraceOnNewLineForFunctions: false,
-	placeOpenBraceOnNewLineForControlBlocks: false,
-	insertSpaceBeforeTypeAnnotation: false,
-	indentMultiLineObjectLiteralBeginningOnBlankLine: true,
-	semicolons: ts.SemicolonPreference.Insert
-};
+// Not part of the prettier plugin API, but useful when adopting ts-pretty (@see inferFormatSettings).
+export {inferFormatSettings} from './infer-format';
+export type {InferFormatOptions, InferredFormat, InferredSetting} from './infer-format';
 
 /**
  * These are the "enhanced" options this plugin supports.
@@ -67,14 +56,16 @@ export interface TspPluginOptions {
 	tspUseBuiltins?: boolean;
 	/**
 	 * Filepath to a tsconfig.json file.
-	 *  If not defined, defaults to process.env.TS_NODE_PROJECT,
-	 *  otherwise ./tsconfig.json (if present but you want to ignore it, pass "ignore"),
+	 *  If not defined, defaults to the nearest tsconfig.json searching upwards from the file being formatted (if present but you want to ignore it, pass "ignore"),
+	 *  otherwise process.env.TS_NODE_PROJECT,
 	 *  otherwise a hardcoded set of tsconfig options.
+	 *  If the tsconfig.json has project references, the referenced tsconfig.json which includes the file being formatted is used.
 	 * Keep this property name and comment aligned with @see options.tspTsConfig.description
 	 */
 	tspTsConfig?: string | null;
 	/**
 	 * json5 file containing ts.FormatCodeSettings overrides.
+	 * If not defined, the ts-format.json files found by searching upwards from the file being formatted are merged (nearest last).
 	 * Keep this property name and comment aligned with @see options.tspTsFormat.description
 	 */
 	tspTsFormat?: string;
@@ -83,6 +74,76 @@ export interface TspPluginOptions {
 	 * Keep this property name and comment aligned with @see options.tspOrganizeImports.description
 	 */
 	tspOrganizeImports?: boolean;
+	/**
+	 * Format files even if they contain syntax errors (instead of reporting the error and leaving the file untouched).
+	 * Keep this property name and comment aligned with @see options.tspAllowSyntaxErrors.description
+	 */
+	tspAllowSyntaxErrors?: boolean;
+	/**
+	 * Re-parse the formatted text and ensure it still means the same thing as the original (reports an error if not).
+	 * Keep this property name and comment aligned with @see options.tspVerify.description
+	 */
+	tspVerify?: boolean;
+	/**
+	 * Write numeric literals in a canonical form (e.g. 0XFF becomes 0xFF, and 1.50E+10 becomes 1.5e10), and remove unnecessary escapes from strings.
+	 * Keep this property name and comment aligned with @see options.tspNormalizeLiterals.description
+	 */
+	tspNormalizeLiterals?: boolean;
+	/**
+	 * What tspOrganizeImports does: 'All' (sort, combine, and remove unused imports), 'SortAndCombine' (never removes anything), or 'RemoveUnused' (never reorders anything).
+	 * Keep this property name and comment aligned with @see options.tspOrganizeImportsMode.description
+	 */
+	tspOrganizeImportsMode?: 'All' | 'SortAndCombine' | 'RemoveUnused';
+	/**
+	 * Whether tspOrganizeImports sorts module specifiers (and import names) case-insensitively.
+	 * Keep this property name and comment aligned with @see options.tspOrganizeImportsIgnoreCase.description
+	 */
+	tspOrganizeImportsIgnoreCase?: boolean;
+	/**
+	 * How tspOrganizeImports compares module specifiers (and import names): 'ordinal' (by character code), or 'unicode' (using the locale's collation).
+	 * Keep this property name and comment aligned with @see options.tspOrganizeImportsCollation.description
+	 */
+	tspOrganizeImportsCollation?: 'ordinal' | 'unicode';
+	/**
+	 * Patterns (regular expressions, or one of <builtin>, <external>, <paths>, <relative>) describing the groups (separated by blank lines) that tspOrganizeImports arranges imports into.
+	 * Keep this property name and comment aligned with @see options.tspImportGroups.description
+	 */
+	tspImportGroups?: string[];
+	/**
+	 * TypeScript code fixes (e.g. fixMissingOverride, unusedIdentifier_delete) applied to the whole file before it is printed.
+	 * Keep this property name and comment aligned with @see options.tspCodeFixes.description
+	 */
+	tspCodeFixes?: string[];
+	/**
+	 * Convert imports and exports of names which are only used as types into 'import type' / 'export type' declarations ('top-level'), or 'type' modifiers on each name ('inline').
+	 * Keep this property name and comment aligned with @see options.tspTypeImports.description
+	 */
+	tspTypeImports?: 'off' | 'top-level' | 'inline';
+	/**
+	 * Rewrite the module specifiers of imports, exports, import() and require() which refer to files within the project, using the tsconfig 'paths' / 'baseUrl' ('non-relative'), relative paths ('relative'), or whichever is shortest ('shortest').
+	 * Keep this property name and comment aligned with @see options.tspImportPaths.description
+	 */
+	tspImportPaths?: 'off' | 'shortest' | 'non-relative' | 'relative';
+	/**
+	 * Apply the .editorconfig sections which match the file being formatted (indent_style, indent_size, tab_width, end_of_line, trim_trailing_whitespace and insert_final_newline).
+	 * Keep this property name and comment aligned with @see options.tspEditorConfig.description
+	 */
+	tspEditorConfig?: boolean;
+	/**
+	 * Base formatting preset (author, vscode, allman, or a module exporting ts.FormatCodeSettings).
+	 * Keep this property name and comment aligned with @see options.tspPreset.description
+	 */
+	tspPreset?: string;
+	/**
+	 * Whether to reprint the code, or only format its whitespace.
+	 * Keep this property name and comment aligned with @see options.tspMode.description
+	 */
+	tspMode?: 'reprint' | 'whitespace';
+	/**
+	 * Only format the lines changed (according to git diff) since this revision.
+	 * Keep this property name and comment aligned with @see options.tspChangedSince.description
+	 */
+	tspChangedSince?: string;
 }
 
 /**
@@ -111,14 +172,14 @@ export const options: Record<keyof TspPluginOptions, SupportOption> = {
 		category: 'TypeScript',
 		since: '1.16.4',
 		// default value is undefined in keeping with @see defaultOptions.tspTsFormat
-		description: 'Filepath to a tsconfig.json file.\n\tIf not defined, defaults to process.env.TS_NODE_PROJECT,\n\totherwise ./tsconfig.json (if present but you want to ignore it, pass "ignore"),\n\totherwise a hardcoded set of tsconfig options.'
+		description: 'Filepath to a tsconfig.json file.\n\tIf not defined, defaults to the nearest tsconfig.json searching upwards from the file being formatted (if present but you want to ignore it, pass "ignore"),\n\totherwise process.env.TS_NODE_PROJECT,\n\totherwise a hardcoded set of tsconfig options.\n\tIf the tsconfig.json has project references, the referenced tsconfig.json which includes the file being formatted is used.'
 	},
 	tspTsFormat: {
 		type: 'path',    // keep this in sync with the type of @see TspPluginOptions.tspTsFormat (e.g. 'path' is filepath is string).
 		category: 'TypeScript',
 		since: '1.16.4',
 		// default value is undefined in keeping with @see defaultOptions.tspTsFormat
-		description: 'json5 file containing ts.FormatCodeSettings overrides',
+		description: 'json5 file containing ts.FormatCodeSettings overrides.\n\tIf not defined, the ts-format.json files found by searching upwards from the file being formatted are merged (nearest last).',
 	},
 	tspOrganizeImports: {
 		type: 'boolean',    // keep this in sync with the type of @see TspPluginOptions.tspOrganizeImports
@@ -127,6 +188,130 @@ export const options: Record<keyof TspPluginOptions, SupportOption> = {
 		default: false,    // keep this in sync with the value of @see defaultOptions.tspOrganizeImports
 		description: 'Organize TypeScript imports using ts.LanguageService.organizeImports',
 	},
+	tspAllowSyntaxErrors: {
+		type: 'boolean',    // keep this in sync with the type of @see TspPluginOptions.tspAllowSyntaxErrors
+		category: 'TypeScript',
+		since: '1.16.4',
+		default: false,    // keep this in sync with the value of @see defaultOptions.tspAllowSyntaxErrors
+		description: 'Format files even if they contain syntax errors (instead of reporting the error and leaving the file untouched).',
+	},
+	tspVerify: {
+		type: 'boolean',    // keep this in sync with the type of @see TspPluginOptions.tspVerify
+		category: 'TypeScript',
+		since: '1.16.4',
+		default: false,    // keep this in sync with the value of @see defaultOptions.tspVerify
+		description: 'Re-parse the formatted text and ensure it still means the same thing as the original (reports an error if not).',
+	},
+	tspNormalizeLiterals: {
+		type: 'boolean',    // keep this in sync with the type of @see TspPluginOptions.tspNormalizeLiterals
+		category: 'TypeScript',
+		since: '1.16.4',
+		default: false,    // keep this in sync with the value of @see defaultOptions.tspNormalizeLiterals
+		description: 'Write numeric literals in a canonical form (e.g. 0XFF becomes 0xFF, and 1.50E+10 becomes 1.5e10), and remove unnecessary escapes from strings.',
+	},
+	tspOrganizeImportsMode: {
+		type: 'choice',    // keep this in sync with the type of @see TspPluginOptions.tspOrganizeImportsMode
+		category: 'TypeScript',
+		since: '1.16.4',
+		choices: [
+			{value: 'All', description: 'Sort and combine imports, and remove unused imports.'},
+			{value: 'SortAndCombine', description: 'Sort and combine imports, but never remove any.'},
+			{value: 'RemoveUnused', description: 'Remove unused imports, but never reorder any.'}
+		],
+		default: 'All',    // keep this in sync with the value of @see defaultOptions.tspOrganizeImportsMode
+		description: 'What tspOrganizeImports does: \'All\' (sort, combine, and remove unused imports), \'SortAndCombine\' (never removes anything), or \'RemoveUnused\' (never reorders anything).',
+	},
+	tspOrganizeImportsIgnoreCase: {
+		type: 'boolean',    // keep this in sync with the type of @see TspPluginOptions.tspOrganizeImportsIgnoreCase
+		category: 'TypeScript',
+		since: '1.16.4',
+		default: true,    // keep this in sync with the value of @see defaultOptions.tspOrganizeImportsIgnoreCase
+		description: 'Whether tspOrganizeImports sorts module specifiers (and import names) case-insensitively.',
+	},
+	tspOrganizeImportsCollation: {
+		type: 'choice',    // keep this in sync with the type of @see TspPluginOptions.tspOrganizeImportsCollation
+		category: 'TypeScript',
+		since: '1.16.4',
+		choices: [
+			{value: 'ordinal', description: 'Compare by character code.'},
+			{value: 'unicode', description: 'Compare using the collation of the current locale.'}
+		],
+		default: 'ordinal',    // keep this in sync with the value of @see defaultOptions.tspOrganizeImportsCollation
+		description: 'How tspOrganizeImports compares module specifiers (and import names): \'ordinal\' (by character code), or \'unicode\' (using the locale\'s collation).',
+	},
+	tspImportGroups: {
+		type: 'string',    // keep this in sync with the type of @see TspPluginOptions.tspImportGroups
+		category: 'TypeScript',
+		since: '1.16.4',
+		array: true,
+		default: [{value: []}],    // keep this in sync with the value of @see defaultOptions.tspImportGroups
+		description: 'Patterns (regular expressions, or one of <builtin>, <external>, <paths>, <relative>) describing the groups (separated by blank lines) that tspOrganizeImports arranges imports into.',
+	},
+	tspCodeFixes: {
+		type: 'string',    // keep this in sync with the type of @see TspPluginOptions.tspCodeFixes
+		category: 'TypeScript',
+		since: '1.16.4',
+		array: true,
+		default: [{value: []}],    // keep this in sync with the value of @see defaultOptions.tspCodeFixes
+		description: 'TypeScript code fixes (e.g. fixMissingOverride, unusedIdentifier_delete) applied to the whole file before it is printed.',
+	},
+	tspTypeImports: {
+		type: 'choice',    // keep this in sync with the type of @see TspPluginOptions.tspTypeImports
+		category: 'TypeScript',
+		since: '1.16.4',
+		choices: [
+			{value: 'off', description: 'Leave imports and exports as they are.'},
+			{value: 'top-level', description: 'Move type-only names into import type / export type declarations.'},
+			{value: 'inline', description: 'Mark type-only names with an inline type modifier.'}
+		],
+		default: 'off',    // keep this in sync with the value of @see defaultOptions.tspTypeImports
+		description: 'Convert imports and exports of names which are only used as types into \'import type\' / \'export type\' declarations (\'top-level\'), or \'type\' modifiers on each name (\'inline\').',
+	},
+	tspImportPaths: {
+		type: 'choice',    // keep this in sync with the type of @see TspPluginOptions.tspImportPaths
+		category: 'TypeScript',
+		since: '1.16.4',
+		choices: [
+			{value: 'off', description: 'Leave module specifiers as they are.'},
+			{value: 'shortest', description: 'Use whichever specifier is shortest.'},
+			{value: 'non-relative', description: 'Use the tsconfig paths aliases or baseUrl.'},
+			{value: 'relative', description: 'Use paths relative to the importing file.'}
+		],
+		default: 'off',    // keep this in sync with the value of @see defaultOptions.tspImportPaths
+		description: 'Rewrite the module specifiers of imports, exports, import() and require() which refer to files within the project, using the tsconfig \'paths\' / \'baseUrl\' (\'non-relative\'), relative paths (\'relative\'), or whichever is shortest (\'shortest\').',
+	},
+	tspEditorConfig: {
+		type: 'boolean',    // keep this in sync with the type of @see TspPluginOptions.tspEditorConfig
+		category: 'TypeScript',
+		since: '1.16.4',
+		default: true,    // keep this in sync with the value of @see defaultOptions.tspEditorConfig
+		description: 'Apply the .editorconfig sections which match the file being formatted (indent_style, indent_size, tab_width, end_of_line, trim_trailing_whitespace and insert_final_newline).',
+	},
+	tspPreset: {
+		type: 'string',    // keep this in sync with the type of @see TspPluginOptions.tspPreset
+		category: 'TypeScript',
+		since: '1.16.4',
+		default: 'author',    // keep this in sync with the value of @see defaultOptions.tspPreset
+		description: 'Base formatting preset (author, vscode, allman, or a module exporting ts.FormatCodeSettings).',
+	},
+	tspMode: {
+		type: 'choice',    // keep this in sync with the type of @see TspPluginOptions.tspMode
+		category: 'TypeScript',
+		since: '1.16.4',
+		choices: [
+			{value: 'reprint', description: 'Reprint the code with ts.Printer, then format its whitespace.'},
+			{value: 'whitespace', description: 'Only format the whitespace (and semicolons) of the code as written.'}
+		],
+		default: 'reprint',    // keep this in sync with the value of @see defaultOptions.tspMode
+		description: 'Whether to reprint the code, or only format its whitespace.',
+	},
+	tspChangedSince: {
+		type: 'string',    // keep this in sync with the type of @see TspPluginOptions.tspChangedSince
+		category: 'TypeScript',
+		since: '1.16.4',
+		// default value is undefined in keeping with @see defaultOptions.tspChangedSince
+		description: 'Only format the lines changed (according to git diff) since this revision.',
+	},
 };
 
 /**
@@ -138,10 +323,74 @@ export const options: Record<keyof TspPluginOptions, SupportOption> = {
 export const defaultOptions = {
 	tspDisable: false,      // keep this in sync with the type of @see options.tspDisable
 	tspUseBuiltins: false,      // keep this in sync with the type of @see options.tspUseBuiltins
-	tspOrganizeImports: false      // keep this in sync with the type of @see options.tspOrganizeImports
+	tspOrganizeImports: false,      // keep this in sync with the type of @see options.tspOrganizeImports
+	tspAllowSyntaxErrors: false,      // keep this in sync with the type of @see options.tspAllowSyntaxErrors
+	tspVerify: false,      // keep this in sync with the type of @see options.tspVerify
+	tspNormalizeLiterals: false,      // keep this in sync with the type of @see options.tspNormalizeLiterals
+	tspOrganizeImportsMode: 'All',      // keep this in sync with the type of @see options.tspOrganizeImportsMode
+	tspOrganizeImportsIgnoreCase: true,      // keep this in sync with the type of @see options.tspOrganizeImportsIgnoreCase
+	tspOrganizeImportsCollation: 'ordinal',      // keep this in sync with the type of @see options.tspOrganizeImportsCollation
+	tspImportGroups: [] as string[],      // keep this in sync with the type of @see options.tspImportGroups
+	tspCodeFixes: [] as string[],      // keep this in sync with the type of @see options.tspCodeFixes
+	tspTypeImports: 'off',      // keep this in sync with the type of @see options.tspTypeImports
+	tspImportPaths: 'off',      // keep this in sync with the type of @see options.tspImportPaths
+	tspEditorConfig: true,      // keep this in sync with the type of @see options.tspEditorConfig
+	tspPreset: 'author',      // keep this in sync with the type of @see options.tspPreset
+	tspMode: 'reprint'      // keep this in sync with the type of @see options.tspMode
 	// Other supported options default to undefined.
 };
 
+/**
+ * Options for @see formatText (the ts-pretty options, minus those which only make sense within prettier, plus the prettier options ts-pretty understands).
+ * NOTE:
+ *  Unlike prettier, nothing here has a default (e.g. without a printWidth, long lines are not broken), so the settings come from the preset, .editorconfig and ts-format.json files alone.
+ */
+export interface FormatTextOptions extends Omit<TspPluginOptions, 'tspDisable' | 'tspUseBuiltins' | 'tspTsConfig' | 'tspOrganizeImports'>,
+	Partial<Pick<ParserOptions, 'printWidth' | 'tabWidth' | 'useTabs' | 'semi' | 'singleQuote' | 'jsxSingleQuote' | 'quoteProps' | 'trailingComma' | 'bracketSpacing' | 'arrowParens' | 'endOfLine' | 'embeddedLanguageFormatting'>> {
+	/**
+	 * The file the text is (or will be) the content of, which is used to find the tsconfig.json, ts-format.json and .editorconfig files (and to decide whether the text is TypeScript).
+	 */
+	fileName?: string;
+	/**
+	 * Same as @see TspPluginOptions.tspTsConfig
+	 */
+	tsConfig?: string;
+	/**
+	 * Settings which override everything else (i.e. the preset, prettier options, .editorconfig and ts-format.json files).
+	 */
+	formatSettings?: ts.FormatCodeSettings;
+	/**
+	 * Same as @see TspPluginOptions.tspOrganizeImports
+	 */
+	organizeImports?: boolean;
+	/**
+	 * If specified, only the statements which overlap this range are formatted.
+	 */
+	range?: ts.TextRange;
+	/**
+	 * If specified, the offset is mapped through every change made to the text (@see FormatTextResult.cursorOffset).
+	 */
+	cursorOffset?: number;
+}
+
+/**
+ * The result of @see formatText
+ */
+export interface FormatTextResult {
+	/**
+	 * The formatted text.
+	 */
+	text: string;
+	/**
+	 * The (whole line) edits which turn the original text into the formatted text.
+	 */
+	edits: ts.TextChange[];
+	/**
+	 * Where the cursor ended up (if @see FormatTextOptions.cursorOffset was specified).
+	 */
+	cursorOffset?: number;
+}
+
 /**
  * An unofficial TypeScript utility type that is the inverse of ReadOnly.
  */
@@ -156,8 +405,124 @@ interface TscNode {
 	source: string;
 	start: number;
 	end: number;
+	/**
+	 * Only present when prettier is formatting a range (@see TypeScriptParser.parse).
+	 */
+	range?: TscRangeNode;
+	/**
+	 * Only present when prettier is tracking a cursor (@see makeCursorNode).
+	 */
+	cursor?: TscCursorNode;
+}
+
+/**
+ * The "statement" prettier formats when it is formatting a range.
+ */
+interface TscRangeNode {
+	type: 'TscRangeStatement';
+	start: number;
+	end: number;
+}
+
+/**
+ * Prettier finds the node at the cursor offset, and then locates the cursor in the output by finding where that node got printed.
+ * So this node represents the character at the cursor (start/end are offsets into the original text), and 'text' is that same character as printed ('offset' is where it was printed).
+ */
+interface TscCursorNode {
+	type: 'tsc-cursor';
+	start: number;
+	end: number;
+	offset: number;
+	text: string;
+}
+
+type TscAnyNode = TscNode | TscRangeNode | TscCursorNode;
+
+/**
+ * What the first parse of a range formatting request stashes (in the prettier options) for the second parse.
+ */
+interface RangeResult {
+	source: string;
+	body: string;
+	cursorOffset: number;
 }
 
+const RangeResultKey = Symbol('ts-pretty range result');
+
+/**
+ * Upper limit on the number of lines @see TypeScriptParser.breakLongLines will break (just in case it would otherwise never finish).
+ */
+const MaxLineBreakPasses = 1000;
+
+/**
+ * Prettier only passes a (non-negative) cursorOffset when called via formatWithCursor (and the typings for ParserOptions omit it entirely).
+ */
+function getCursorOffset(options: ParserOptions<TscNode>): number {
+	const cursorOffset = (options as any).cursorOffset as number | undefined;
+	return typeof cursorOffset === 'number' ? cursorOffset : -1;
+}
+
+/**
+ * True if prettier is asking for a range of the text to be formatted (rather than all of it).
+ * NOTE:
+ *  Prettier inserts the pragma (--insert-pragma) after it has limited the range to the original text, so a text which now has a pragma is not considered a range unless it starts after the beginning.
+ */
+function isRangeRequest(text: string, options: ParserOptions<TscNode>): boolean {
+	if (options.rangeStart > 0)
+		return true;
+	if (options.rangeEnd >= text.length)
+		return false;
+	return !(options.insertPragma && !options.requirePragma && hasPragma(text));
+}
+
+/**
+ * Build the node prettier will use to track the cursor (@see TscCursorNode).
+ *
+ * @param offset    The cursor offset within the original text.
+ * @param mappedOffset  The cursor offset within the formatted text.
+ */
+function makeCursorNode(text: string, offset: number, formatted: string, mappedOffset: number): TscCursorNode | undefined {
+	if (offset > text.length || mappedOffset < 0 || text.length === 0 || formatted.length === 0)
+		return undefined;
+	// At the very end of the text there is no character *at* the cursor, so track the one in front of it.
+	const before = offset < text.length ? 0 : 1;
+	const newStart = Math.min(Math.max(mappedOffset - before, 0), formatted.length - 1);
+	return {
+		type: 'tsc-cursor',
+		start: offset - before,
+		end: offset - before + 1,
+		offset: newStart,
+		text: formatted.substring(newStart, newStart + 1)
+	};
+}
+
+/**
+ * The prettier parser for each language we format when it is embedded in a template literal.
+ */
+const EmbeddedParsers: Record<EmbeddedLanguage, string> = {
+	css: 'scss',
+	graphql: 'graphql',
+	html: 'html',
+	markdown: 'markdown'
+};
+
+/**
+ * An embedded template which still has to be formatted (by prettier 3, @see EmbeddedResults).
+ */
+interface PendingEmbeddedFormat {
+	text: string;
+	options: Options;
+}
+
+/**
+ * The formatted text of each embedded template (or why it could not be formatted), keyed by its text and prettier options (@see TypeScriptParser.formatEmbedded).
+ * Prettier 3 formats asynchronously, so when ts-pretty is a prettier 3 plugin, the templates are collected (in the prettier options) while formatting the file,
+ * and the file is formatted again once the parser has awaited the format of each one (@see parseAsync).
+ */
+type EmbeddedResults = Map<string, string | Error | PendingEmbeddedFormat>;
+
+const EmbeddedResultsKey = Symbol('ts-pretty embedded results');
+
 /**
  * This is the parser we use for all our 'supported' parser names (e.g. typescript, acorn, babel, etc.).
  */
@@ -171,16 +536,55 @@ class TypeScriptParser {
 	constructor() {
 	}
 
-	formatOverrides?: ts.FormatCodeSettings;
+	/**
+	 * Finds (and caches) the tsconfig.json for each file we format.
+	 */
+	protected tsConfigs = new TsConfigResolver();
+
+	/**
+	 * Finds (and caches) the ts-format.json files for each file we format.
+	 */
+	protected tsFormats = new TsFormatResolver();
+
+	/**
+	 * Finds (and caches) the .editorconfig files for each file we format.
+	 */
+	protected editorConfigs = new EditorConfigResolver();
+
+	/**
+	 * Re-usable ts.LanguageService (and friends) for each distinct set of compiler options.
+	 */
+	protected projects = new ProjectCache();
+
+	/**
+	 * The configuration files (tsconfig.json, ts-format.json and .editorconfig) we have read (and cached).
+	 */
+	public cachedConfigFiles(): string[] {
+		return [...this.tsConfigs.cachedFiles(), ...this.tsFormats.cachedFiles(), ...this.editorConfigs.cachedFiles()];
+	}
+
+	/**
+	 * Forget everything we have cached (including the projects, since their compiler options may no longer be what the tsconfig.json says).
+	 */
+	public clearCaches(): void {
+		this.tsConfigs.clear();
+		this.tsFormats.clear();
+		this.editorConfigs.clear();
+		this.projects.clear();
+	}
 
 	/**
 	 * Merge together a final ts.FormatCodeSettings for configuring the whitespace of a file.
-	 * Starts with my own preferred defaults (@see DefaultFormatCodeSettings),
-	 * then merge in prettier specific options,
-	 * and finally override with anything found in a ts-format.json (e.g. --tspTsFormat) file (if one was specified).
+	 * Starts with the preset (@see resolvePreset, by default my own preferred settings),
+	 * then the .editorconfig settings which apply to the file (@see EditorConfigResolver),
+	 * then merge in prettier specific options (which win over .editorconfig, just as they do in prettier itself),
+	 * then override with anything found in the ts-format.json files which apply to the file (either --tspTsFormat, or those found by searching upwards from the file),
+	 * and finally (when called programmatically, @see formatText) the explicitly specified settings.
 	 */
-	protected makeFormatCodeSettings(options: ParserOptions<TscNode> & TspPluginOptions): ts.FormatCodeSettings {
-		const format = cloneDeep(DefaultFormatCodeSettings) as Writeable<ts.FormatCodeSettings>;
+	protected makeFormatCodeSettings(options: ParserOptions<TscNode> & TspPluginOptions, editorConfig?: EditorConfigSettings, formatSettings?: ts.FormatCodeSettings): ts.FormatCodeSettings {
+		const format = cloneDeep(resolvePreset(options.tspPreset, options.filepath)) as Writeable<ts.FormatCodeSettings>;
+		if (editorConfig)
+			merge(format, editorConfig.format);
 		switch (options.endOfLine) {
 			case 'crlf':
 				format.newLineCharacter = '\r\n';
@@ -193,7 +597,8 @@ class TypeScriptParser {
 				break;
 			case 'auto':
 			default:
-				delete format.newLineCharacter;
+				if (editorConfig?.format.newLineCharacter === undefined)
+					delete format.newLineCharacter;
 				break;
 		}
 		// noinspection SuspiciousTypeOfGuard
@@ -205,70 +610,118 @@ class TypeScriptParser {
 		// noinspection SuspiciousTypeOfGuard
 		if (typeof options.useTabs === 'boolean')
 			format.convertTabsToSpaces = !options.useTabs;
-		else
+		else if (editorConfig?.format.convertTabsToSpaces === undefined)
 			delete format.convertTabsToSpaces;
 		// noinspection SuspiciousTypeOfGuard
 		if (typeof options.bracketSpacing === 'boolean')
 			format.insertSpaceAfterOpeningAndBeforeClosingNonemptyBrackets = options.bracketSpacing;
 
-		if (options.tspTsFormat) {
-			if (!this.formatOverrides) {
-				const txt = fs.readFileSync(options.tspTsFormat, 'utf8');
-				this.formatOverrides = json5Parse(txt);
-			}
-			merge(format, this.formatOverrides);
-		}
+		const overrides = this.tsFormats.resolve(options.filepath, options.tspTsFormat);
+		if (overrides)
+			merge(format, overrides);
+		if (formatSettings)
+			merge(format, formatSettings);
 		return format;
 	}
 
 	/**
-	 * THIS METHOD IS A HACK!  I would really like to find a better way!
-	 * The ts.Printer builtin to TypeScript does *mostly* what we want but hardcodes the use of single vs double quotes.
-	 * There is an existing (and realistic) prettier expectation, that users can specify single vs double quote transformations.
-	 * But the bottom line is that ts.Printer simply does not support that.
-	 * Worse, the hack we use below is *not* "public".  Hence, we isolate it into this one method.
-	 * StringLiterals have an internal property called 'singleQuote'.
-	 * Unfortunately, the ts.Printer also has "optimizations" where it re-uses the text of the source file whenever it can, meaning it will keep whatever type of quote was already in the source file.
-	 * This *prevents* us from converting quotes (mostly in import statements).
-	 * So...
-	 * We set the flag on all StringLiteral nodes in the source file, *and* patch ts.getLiteralText (an exposed but undocumented global) to ignore the sourceFile text *when* getting the text for a StringLiteral.
-	 * This results in StringLiterals being printed from the StringLiteral node itself rather than from the actual SourceFile text (see the ts.Printer optimization comment above).
-	 * Bottom line...
-	 * This method traverses the TypeScript ast nodes and patches up (as best it can) the StringLiteral nodes to have the "right" boolean value set for StringLiteral.singleQuote.
-	 * This method also temporarily patches the ts.getLiteralText global (mentioned above) while ts.Printer renders the tree.
-	 * Net result is we end up with the ability to control single vs double quotes in the source code.
-	 */
-	protected tsPrintSourceFile(sourceFile: ts.SourceFile, options: ParserOptions<TscNode> & TspPluginOptions) {
-		const printer = ts.createPrinter();
+	 * Transformations which are applied to the ast before it is printed (for prettier options that ts.Printer has no notion of).
+	 *
+	 * @param ignored   Receives the original text of the nodes which must not be formatted (@see ignoreTransformer).
+	 */
+	protected makeTransformers(sourceFile: ts.SourceFile, options: ParserOptions<TscNode> & TspPluginOptions, ignored: IgnoredNodes): ts.TransformerFactory<ts.Node>[] {
+		// Ignored nodes are replaced first, so that no other transformation touches them.
+		const transformers: ts.TransformerFactory<ts.Node>[] = [ignoreTransformer(sourceFile, ignored)];
+		// Must come before the quoteTransformer (@see quotePropsTransformer).
+		if (options.quoteProps)
+			transformers.push(quotePropsTransformer(options.quoteProps, !!options.singleQuote, sourceFile));
+		transformers.push(quoteTransformer(!!options.singleQuote, !!options.jsxSingleQuote, !!options.tspNormalizeLiterals, sourceFile));
+		if (options.tspNormalizeLiterals)
+			transformers.push(numericLiteralTransformer(sourceFile));
+		if (options.trailingComma)
+			transformers.push(trailingCommaTransformer(options.trailingComma, sourceFile));
+		if (options.arrowParens)
+			transformers.push(arrowParensTransformer(options.arrowParens, sourceFile));
+		return transformers;
+	}
 
-		function visitNode(node: ts.Node) {
-			switch (node.kind) {
-				case ts.SyntaxKind.StringLiteral:
-					(node as any).singleQuote = options.singleQuote;
-					break;
-				default:
-					break;
+	/**
+	 * Print the (transformed, @see makeTransformers) ast of the source file using ts.Printer.
+	 *
+	 * @param ignored   Receives the original text of the nodes which were printed as placeholders (@see restoreIgnoredEdits).
+	 * @param groups    If specified, only these groups of (contiguous sibling) statements are printed (@see findEnclosingStatements), otherwise the entire source file is printed.
+	 * @returns The printed text, expressed as changes to the source file text.
+	 */
+	protected tsPrintSourceFile(sourceFile: ts.SourceFile, options: ParserOptions<TscNode> & TspPluginOptions, ignored: IgnoredNodes, groups?: ts.Node[][]): ts.TextChange[] {
+		const printer = ts.createPrinter();
+		// Apply any transformations needed for prettier options which ts.Printer has no notion of.
+		const transformers = this.makeTransformers(sourceFile, options, ignored);
+		function transform<T>(nodes: ts.Node[], print: (transformed: ts.Node[]) => T): T {
+			const result = ts.transform(nodes, transformers);
+			try {
+				return print(result.transformed);
+			}
+			finally {
+				result.dispose();
 			}
-			ts.forEachChild(node, visitNode);
 		}
 
-		// Patch up the tree
-		if (options.singleQuote)
-			visitNode(sourceFile as ts.Node);
-		// Temporarily patch the printing of StringLiteral nodes
-		const getLiteralTextWrapper = (ts as any).getLiteralText;
-		(ts as any).getLiteralText = function getLiteralText(node: ts.Node, sourceFile: ts.SourceFile, flags: number) {
-			if (node.kind === ts.SyntaxKind.StringLiteral)
-				return getLiteralTextWrapper(node, null, flags) as string;
-			return getLiteralTextWrapper(node, sourceFile, flags) as string;
+		if (!groups)
+			return transform([sourceFile], ([sf]) => [{span: {start: 0, length: sourceFile.text.length}, newText: printer.printNode(ts.EmitHint.SourceFile, sf, sourceFile)}]);
+		return groups.map(originalGroup => transform(originalGroup, group => {
+			const first = group[0];
+			const last = group[group.length - 1];
+			// The comments in front of the first statement and after the last one are outside the range we are replacing (so they must not be printed again).
+			if (first === last)
+				ts.setEmitFlags(first, ts.EmitFlags.NoComments);
+			else {
+				ts.setEmitFlags(first, ts.EmitFlags.NoLeadingComments);
+				ts.setEmitFlags(last, ts.EmitFlags.NoTrailingComments);
+			}
+			const start = originalGroup[0].getStart(sourceFile);
+			return {
+				span: {start, length: originalGroup[originalGroup.length - 1].end - start},
+				newText: group.map(n => printer.printNode(ts.EmitHint.Unspecified, n, sourceFile).trimEnd()).join('\n')
+			};
+		}));
+	}
+
+	/**
+	 * The same pipeline as @see parse, but without prettier (@see formatText).
+	 */
+	formatText(text: string, formatTextOptions: FormatTextOptions): FormatTextResult {
+		const {fileName, tsConfig, formatSettings, organizeImports, range, cursorOffset, ...rest} = formatTextOptions;
+		const options = {
+			...defaultOptions,
+			...rest,
+			filepath: fileName,
+			tspTsConfig: tsConfig,
+			tspOrganizeImports: !!organizeImports
+		} as ParserOptions<TscNode> & TspPluginOptions;
+		const result = this.format(text, options, range ? [range] : undefined, cursorOffset ?? -1, formatSettings);
+		return {
+			text: result.text,
+			edits: textEdits(text, result.text),
+			cursorOffset: cursorOffset === undefined ? undefined : result.cursorOffset
+		};
+	}
+
+	/**
+	 * If this is prettier's second call (@see parse) while formatting a range, return what we already computed during the first call.
+	 */
+	rangeResult(text: string, options: ParserOptions<TscNode> & TspPluginOptions): TscNode | undefined {
+		const stashed = (options as any)[RangeResultKey] as RangeResult | undefined;
+		if (!stashed || stashed.source !== text || isRangeRequest(text, options))
+			return undefined;
+		const cursorOffset = getCursorOffset(options);
+		return {
+			type: 'tsc-ast',
+			source: text,
+			start: 0,
+			end: text.length,
+			body: stashed.body,
+			cursor: cursorOffset >= 0 ? makeCursorNode(text, cursorOffset, stashed.body, stashed.cursorOffset) : undefined
 		};
-		// Print the ast of the source file, ensuring we restore/remove the StringLiteral patch when we are done.
-		try {
-			return printer.printNode(ts.EmitHint.SourceFile, sourceFile, sourceFile);
-		}
-		finally {
-			(ts as any).getLiteralText = getLiteralTextWrapper;
-		}
 	}
 
 	/**
@@ -276,40 +729,76 @@ class TypeScriptParser {
 	 * This is the core method of every prettier plugin parser.
 	 * NOTE:
 	 *  If the --tspUseBuiltins options was set, the 'text' provided to this parse method will be the output from the previously registered plugin.
+	 * Prettier formats a range (e.g. --range-start/--range-end) by asking the parser for the "source elements" that overlap the range, formatting just the text of those elements, and splicing the result back in.
+	 * We can't hand prettier a piece of TypeScript to format (we need the whole file to make sense of it), so instead...
+	 * The first call formats the statements overlapping the range (@see format), stashes the result in the options, and returns a single "statement" spanning the file.
+	 * Prettier then calls us again with the text of that "statement" (and a copy of the options), and we simply return what we stashed.
+	 *
+	 * @param originalText  The text prettier actually asked us to format (which differs from 'text' when --tspUseBuiltins was set).
+	 */
+	parse(text: string, options: ParserOptions<TscNode> & TspPluginOptions, originalText = text): TscNode {
+		const isRange = isRangeRequest(originalText, options);
+		const ranges = isRange ? [{pos: options.rangeStart, end: options.rangeEnd}] : undefined;
+		const cursorOffset = getCursorOffset(options);
+		const result = this.format(text, options, ranges, cursorOffset);
+		if (isRange) {
+			const trimmedEnd = originalText.trimEnd().length;
+			(options as any)[RangeResultKey] = {
+				source: originalText.substring(0, trimmedEnd),
+				body: result.text,
+				cursorOffset: result.cursorOffset
+			} as RangeResult;
+			return {
+				type: 'tsc-ast',
+				source: originalText,
+				start: 0,
+				end: originalText.length,
+				body: result.text,
+				// Prettier only considers nodes whose type ends in 'Statement' when formatting a range, and it will preserve any text after this node (e.g. the final newline).
+				range: {type: 'TscRangeStatement', start: 0, end: trimmedEnd}
+			};
+		}
+		// Return the formatted text "file" as a cleaned up single ast node.
+		return {
+			type: 'tsc-ast',
+			source: originalText,
+			start: 0,
+			end: originalText.length,
+			body: result.text,
+			cursor: cursorOffset >= 0 ? makeCursorNode(originalText, cursorOffset, result.text, result.cursorOffset) : undefined
+		};
+	}
+
+	/**
+	 * Format the text, using options (and tsconfig.json, etc.) from prettier.
+	 *
+	 * @param ranges    If specified, only the statements which overlap these ranges are formatted, and the rest of the text is left untouched.
+	 * @param cursorOffset  If specified (and non-negative), this offset is mapped through every change made to the text.
+	 * @param formatSettings    If specified, these override all other ts.FormatCodeSettings (@see makeFormatCodeSettings).
+	 * @returns The formatted text, and the new offset of the cursor (or -1 if no cursorOffset was specified).
 	 */
-	parse(text: string, options: ParserOptions<TscNode> & TspPluginOptions): TscNode {
+	protected format(text: string, options: ParserOptions<TscNode> & TspPluginOptions, ranges?: ts.TextRange[], cursorOffset = -1, formatSettings?: ts.FormatCodeSettings): { text: string, cursorOffset: number } {
+		if (isFileIgnored(text))
+			return {text, cursorOffset};
+		// Formatting just the lines changed since a git revision works just like formatting a range.
+		// An untracked file (or one which is not in a git repository) has no such history, so it is formatted in its entirety.
+		if (!ranges && options.tspChangedSince && options.filepath && fs.existsSync(options.filepath))
+			ranges = changedRanges(options.filepath, options.tspChangedSince, text);
 		// Remember, each file can potentially have different options.
-		const formatOpts = this.makeFormatCodeSettings(options);
+		const editorConfig = options.tspEditorConfig !== false ? this.editorConfigs.resolve(options.filepath) : undefined;
+		const formatOpts = this.makeFormatCodeSettings(options, editorConfig, formatSettings);
 
+		// Normally we have a file to format, but if we are called programatically (via prettier.format like we do in testing), there will not be a file.
+		const existingFilePath = options.filepath && fs.existsSync(options.filepath) ? options.filepath : undefined;
 		let tsConfigPath: string | undefined | null = null;
 		// Find a tsconfig.json file to load compiler options from (if possible).
-		if (options.tspTsConfig !== 'ignore') {
-			let searchDir = './';
-			let tsConfigName;
-			if (process.env.TS_NODE_PROJECT) {
-				searchDir = path.dirname(process.env.TS_NODE_PROJECT);
-				tsConfigName = path.basename(process.env.TS_NODE_PROJECT);
-			}
-			if (options.tspTsConfig) {
-				searchDir = path.dirname(options.tspTsConfig);
-				tsConfigName = path.basename(options.tspTsConfig);
-			}
-			tsConfigPath = ts.findConfigFile(
-				searchDir,
-				ts.sys.fileExists,
-				tsConfigName
-			);
-		}
+		// An explicitly specified tsconfig.json takes precedence, otherwise we search upwards from the file being formatted (or the cwd if there is no file).
+		// TS_NODE_PROJECT is often inherited (e.g. by an editor launched from a shell), so it is only used when that search finds nothing.
+		if (options.tspTsConfig !== 'ignore')
+			tsConfigPath = this.tsConfigs.resolve(existingFilePath, options.tspTsConfig || undefined, process.env.TS_NODE_PROJECT);
 		let tsCompilerOptions: ts.CompilerOptions;
-		if (tsConfigPath) {
-			const configFile = ts.readConfigFile(tsConfigPath, ts.sys.readFile);
-			const configOptions = ts.parseJsonConfigFileContent(
-				configFile.config,
-				ts.sys,
-				path.dirname(tsConfigPath)
-			);
-			tsCompilerOptions = configOptions.options;
-		}
+		if (tsConfigPath)
+			tsCompilerOptions = this.tsConfigs.getParsedConfig(tsConfigPath).options;
 		else {
 			// We could not find a tsconfig.json file, so this is likely not a typescript project, and keep in mind we are not emitting/compiling anyway!
 			// So, use these defaults were taken from a combination of tsc --init and my own speculation about what would be useful for supporting a wide variety of *javascript* code.
@@ -345,12 +834,16 @@ class TypeScriptParser {
 			} as ts.CompilerOptions;
 		}
 		// Remember, ts.CompilerHost is what the TypeScriptCompiler API uses as an adapter to read and write the native file system.
-		const host = new CustCompilerHost();
+		// The host, and the ts.LanguageService built on top of it, are shared by every file that uses the same compiler options.
+		const project = this.projects.acquire(tsConfigPath, tsCompilerOptions);
+		const host = project.host;
 		let filePath = options.filepath;
-		// Normally we have a file to format, but if we are called programatically (via prettier.format like we do in testing), there will not be a file.
 		if (filePath) {
-			if (fs.existsSync(filePath))
+			if (existingFilePath)
 				filePath = host.getCanonicalFileName(filePath);
+			else
+				// The ts.LanguageService asks for files by their normalized names (e.g. 'src/foo.ts' rather than './src/foo.ts'), so an in-memory file needs a name it will ask for.
+				filePath = path.resolve(filePath);
 		}
 		else {
 			// No file path, but the compiler needs one, so make one up.
@@ -358,40 +851,282 @@ class TypeScriptParser {
 			filePath = path.join(tsCompilerOptions.baseUrl ?? './', randomUUID() + '.ts');
 		}
 		host.writeFile(filePath, text);
-		// Our ts.LanguageServiceHost just delegates to the ts.Program and ts.CompilerHost we create, so all this is still happening in memory only.
-		const languageService = ts.createLanguageService(new CustLangServiceHost(host, ts.createProgram([filePath], tsCompilerOptions, host)));
-		// Get the "source" file that we just "wrote" (host.writeFile) above.
-		const sourceFile = host.getSourceFile(filePath, tsCompilerOptions.target ?? ts.ScriptTarget.Latest);
-		// Use our specialized method to invoke ts.Printer.printNode.
-		const cleanedText = this.tsPrintSourceFile(sourceFile!, options);
-		// Write a cleaned up file (sans import optimizations and whitespace cleanup) (again all to memory).
-		host.writeFile(filePath, cleanedText);
-		if (options.tspOrganizeImports) {
-			// This little bypass inspired by the prettier-plugin-organize-imports project.
-			if ((!cleanedText.includes('// organize-imports-ignore')) && (!cleanedText.includes('// tslint:disable:ordered-imports'))) {
-				const fileChanges = languageService.organizeImports({fileName: filePath, type: 'file', mode: ts.OrganizeImportsMode.All}, formatOpts, {});
-				fileChanges.forEach(v => host.applyTextChanges(v.fileName, v.textChanges));
+		// Our ts.LanguageServiceHost just delegates to the ts.CompilerHost, so all this is still happening in memory only.
+		const languageService = project.languageService;
+		project.langServiceHost.addScriptFileName(filePath);
+		let finalText: string;
+		try {
+			const languageVersion = tsCompilerOptions.target ?? ts.ScriptTarget.Latest;
+			// Get the "source" file that we just "wrote" (host.writeFile) above.
+			let sourceFile = host.getSourceFile(filePath, languageVersion);
+			// ts.Printer will happily print whatever tree the parser recovered, which can silently drop (or invent) code.
+			if (!options.tspAllowSyntaxErrors)
+				throwOnSyntaxError(sourceFile!);
+			// Changes that are *meant* to alter the code come first, so that everything after this point only alters its formatting.
+			// Like organizing imports (below), code fixes may touch any part of the file, so we don't apply them when asked to format only part of the file.
+			if (options.tspCodeFixes?.length && !ranges) {
+				const preferences: ts.UserPreferences = {quotePreference: options.singleQuote ? 'single' : 'double'};
+				// Each fix is computed against the text left by the previous one, since their edits may overlap.
+				options.tspCodeFixes.forEach(fixId => {
+					let combined: ts.CombinedCodeActions;
+					try {
+						combined = languageService.getCombinedCodeFix({type: 'file', fileName: filePath}, fixId, formatOpts, preferences);
+					}
+					catch (err) {
+						// TypeScript does not validate the fixId (an unknown one simply crashes it).
+						throw new Error(`Unable to apply code fix '${fixId}' (is it a valid fixId?): ${(err as Error).message}`);
+					}
+					// Any edits to other files (or commands, like installing @types packages) are not ours to make.
+					combined.changes.filter(v => v.fileName === filePath).forEach(v => {
+						if (cursorOffset >= 0)
+							cursorOffset = mapOffset(cursorOffset, host.readFile(filePath)!, v.textChanges);
+						host.applyTextChanges(v.fileName, v.textChanges);
+					});
+				});
+				sourceFile = host.getSourceFile(filePath, languageVersion);
+			}
+			if (options.tspImportPaths && options.tspImportPaths !== 'off' && !ranges) {
+				const pathEdits = importPathEdits(sourceFile!, tsCompilerOptions, host, options.tspImportPaths);
+				if (cursorOffset >= 0)
+					cursorOffset = mapOffset(cursorOffset, host.readFile(filePath)!, pathEdits);
+				host.applyTextChanges(filePath, pathEdits);
+				sourceFile = host.getSourceFile(filePath, languageVersion);
+			}
+			// The 'type' keyword is TypeScript syntax, so this is never done to JavaScript files.
+			if (options.tspTypeImports && options.tspTypeImports !== 'off' && !ranges && /\.[cm]?tsx?$/.test(filePath)) {
+				const program = languageService.getProgram()!;
+				const typeEdits = typeImportEdits(program.getSourceFile(filePath)!, program.getTypeChecker(), options.tspTypeImports, tsCompilerOptions.emitDecoratorMetadata);
+				if (cursorOffset >= 0)
+					cursorOffset = mapOffset(cursorOffset, host.readFile(filePath)!, typeEdits);
+				host.applyTextChanges(filePath, typeEdits);
+				sourceFile = host.getSourceFile(filePath, languageVersion);
+			}
+			// Organizing imports rewrites the top of the file, so we don't do it when asked to format only part of the file.
+			let groupImports: ((currentText: string) => ts.TextChange[]) | undefined;
+			if (options.tspOrganizeImports && !ranges) {
+				// This little bypass inspired by the prettier-plugin-organize-imports project.
+				if ((!text.includes('// organize-imports-ignore')) && (!text.includes('// tslint:disable:ordered-imports'))) {
+					// NOTE: The organizeImportsIgnoreCase and organizeImportsCollation preferences are only understood by TypeScript 5.0+ (earlier versions always ignore case).
+					const preferences = {
+						organizeImportsIgnoreCase: options.tspOrganizeImportsIgnoreCase ?? true,
+						organizeImportsCollation: options.tspOrganizeImportsCollation ?? 'ordinal'
+					} as ts.UserPreferences;
+					const mode = ts.OrganizeImportsMode[options.tspOrganizeImportsMode ?? 'All'];
+					const fileChanges = languageService.organizeImports({fileName: filePath, type: 'file', mode}, formatOpts, preferences);
+					fileChanges.forEach(v => {
+						if (cursorOffset >= 0 && v.fileName === filePath)
+							cursorOffset = mapOffset(cursorOffset, host.readFile(filePath)!, v.textChanges);
+						host.applyTextChanges(v.fileName, v.textChanges);
+					});
+					// TypeScript versions before 5.0 always ignore case, so we re-sort (and group) the imports ourselves when asked for anything else.
+					if (options.tspImportGroups?.length || options.tspOrganizeImportsIgnoreCase === false || options.tspOrganizeImportsCollation === 'unicode') {
+						const sort = options.tspOrganizeImportsMode === 'RemoveUnused' ? undefined : {
+							ignoreCase: options.tspOrganizeImportsIgnoreCase ?? true,
+							collation: options.tspOrganizeImportsCollation ?? 'ordinal'
+						};
+						groupImports = currentText => {
+							const newLine = formatOpts.newLineCharacter ?? (currentText.includes('\r\n') ? '\r\n' : '\n');
+							return importGroupEdits(host.getSourceFile(filePath, languageVersion)!, options.tspImportGroups ?? [], tsCompilerOptions.paths, newLine, sort);
+						};
+						const currentText = host.readFile(filePath)!;
+						const groupEdits = groupImports(currentText);
+						if (cursorOffset >= 0)
+							cursorOffset = mapOffset(cursorOffset, currentText, groupEdits);
+						host.applyTextChanges(filePath, groupEdits);
+					}
+					sourceFile = host.getSourceFile(filePath, languageVersion);
+				}
+			}
+			const unformattedText = sourceFile!.text;
+			// In whitespace mode the code is formatted exactly as written, so nothing which needs ts.Printer (or which would alter the line breaks) is done.
+			const reprint = options.tspMode !== 'whitespace';
+			const groups = ranges ? findEnclosingStatements(sourceFile!, ranges) : undefined;
+			// Use our specialized method to invoke ts.Printer.printNode (on the whole file, or just the statements which overlap the ranges).
+			const ignored: IgnoredNodes = new Map();
+			const printChanges = reprint ? this.tsPrintSourceFile(sourceFile!, options, ignored, groups) : [];
+			if (cursorOffset >= 0)
+				cursorOffset = mapOffset(cursorOffset, unformattedText, printChanges);
+			// Write a cleaned up file (sans whitespace cleanup) (again all to memory).
+			const cleanedText = host.applyTextChanges(filePath, printChanges);
+			// Apply user requested whitespace formatting.
+			let textChanges: ts.TextChange[];
+			let spans: ts.TextRange[] | undefined;
+			if (groups)
+				spans = reprint ? changedSpans(printChanges) : groups.map(group => ({pos: group[0].getStart(sourceFile), end: group[group.length - 1].end}));
+			if (spans)
+				textChanges = this.getFormattingEditsForSpans(languageService, filePath, cleanedText, spans, formatOpts);
+			else
+				textChanges = languageService.getFormattingEditsForDocument(filePath, formatOpts);
+			// Without a reprint, there are no placeholders standing in for the ignored nodes, so the edits which would touch them are simply dropped.
+			if (!reprint)
+				textChanges = withoutIgnoredEdits(host.getSourceFile(filePath, languageVersion)!, textChanges);
+			if (cursorOffset >= 0)
+				cursorOffset = mapOffset(cursorOffset, cleanedText, textChanges);
+			finalText = host.applyTextChanges(filePath, textChanges);
+			spans = spans?.map(s => ({pos: mapOffset(s.pos, cleanedText, textChanges), end: mapOffset(s.end, cleanedText, textChanges)}));
+			// ts.Printer does not preserve blank lines, so the groups (already in order) can only be separated now.
+			if (groupImports) {
+				const groupEdits = groupImports(finalText);
+				if (cursorOffset >= 0)
+					cursorOffset = mapOffset(cursorOffset, finalText, groupEdits);
+				finalText = host.applyTextChanges(filePath, groupEdits);
+			}
+			// ts.Printer knows nothing about printWidth, so break up any lines which are too wide.
+			// This needs the whitespace formatted text, so that lines are measured exactly as they will be written.
+			// noinspection SuspiciousTypeOfGuard
+			if (reprint && typeof options.printWidth === 'number' && options.printWidth > 0) {
+				const indentedText = finalText;
+				finalText = this.breakLongLines(languageService, host, filePath, languageVersion, formatOpts, options.printWidth, options.tabWidth ?? formatOpts.tabSize ?? 1, spans);
+				// Only whitespace changed, so offsets can be mapped by content.
+				const wholeFile = [{span: {start: 0, length: indentedText.length}, newText: finalText}];
+				if (cursorOffset >= 0)
+					cursorOffset = mapOffset(cursorOffset, indentedText, wholeFile);
+				spans = spans?.map(s => ({pos: mapOffset(s.pos, indentedText, wholeFile), end: mapOffset(s.end, indentedText, wholeFile)}));
+			}
+			// ts.Printer insists on parentheses around the parameter of an async arrow function.
+			if (reprint && options.arrowParens === 'avoid') {
+				const parenEdits = asyncArrowParensEdits(host.getSourceFile(filePath, languageVersion)!, spans);
+				if (cursorOffset >= 0)
+					cursorOffset = mapOffset(cursorOffset, finalText, parenEdits);
+				spans = spans?.map(s => ({pos: mapOffset(s.pos, finalText, parenEdits), end: mapOffset(s.end, finalText, parenEdits)}));
+				finalText = host.applyTextChanges(filePath, parenEdits);
+			}
+			// Most multi-line lists either became multi-line when we broke them up above, or are lists ts.Printer never prints a trailing comma for.
+			if (reprint && options.trailingComma) {
+				const commaEdits = trailingCommaEdits(host.getSourceFile(filePath, languageVersion)!, options.trailingComma, spans);
+				if (cursorOffset >= 0)
+					cursorOffset = mapOffset(cursorOffset, finalText, commaEdits);
+				spans = spans?.map(s => ({pos: mapOffset(s.pos, finalText, commaEdits), end: mapOffset(s.end, finalText, commaEdits)}));
+				finalText = host.applyTextChanges(filePath, commaEdits);
+			}
+			// Last of all (so that we know where each template ends up), format the css, graphql, html and markdown embedded in template literals.
+			if (reprint && options.embeddedLanguageFormatting !== 'off') {
+				const indentUnit = formatOpts.convertTabsToSpaces ? ' '.repeat(formatOpts.indentSize ?? 4) : '\t';
+				const newLine = formatOpts.newLineCharacter ?? (finalText.includes('\r\n') ? '\r\n' : '\n');
+				const embeddedEdits = embeddedTemplateEdits(host.getSourceFile(filePath, languageVersion)!, (language, content, indent) => this.formatEmbedded(language, content, indent, options, formatOpts), indentUnit, newLine, spans);
+				if (cursorOffset >= 0)
+					cursorOffset = mapOffset(cursorOffset, finalText, embeddedEdits);
+				finalText = host.applyTextChanges(filePath, embeddedEdits);
+			}
+			// Put back the original text of anything marked prettier-ignore (or ts-pretty-ignore).
+			if (ignored.size > 0) {
+				const restoreEdits = restoreIgnoredEdits(finalText, ignored);
+				if (cursorOffset >= 0)
+					cursorOffset = mapOffset(cursorOffset, finalText, restoreEdits);
+				finalText = host.applyTextChanges(filePath, restoreEdits);
+			}
+			// Prove (if asked) that none of the above changed the meaning of the code.
+			if (options.tspVerify)
+				verifyRoundTrip(filePath, unformattedText, finalText, languageVersion);
+			// The final newline belongs to the whole file (not to any range of it).
+			if (editorConfig?.insertFinalNewline !== undefined && !ranges) {
+				const trimmed = finalText.replace(/(\r?\n|\r)+$/, '');
+				finalText = editorConfig.insertFinalNewline && trimmed !== '' ? trimmed + (formatOpts.newLineCharacter ?? (finalText.includes('\r\n') ? '\r\n' : '\n')) : trimmed;
+				if (cursorOffset > finalText.length)
+					cursorOffset = finalText.length;
 			}
 		}
-		// Apply user requested whitespace formatting.
-		const textChanges = languageService.getFormattingEditsForDocument(filePath, formatOpts);
-		const finalText = host.applyTextChanges(filePath, textChanges);
-		// Return the formatted text "file" as a cleaned up single ast node.
-		return {
-			type: 'tsc-ast',
-			source: text,
-			start: 0,
-			end: text.length,
-			body: finalText
+		finally {
+			// The project outlives this file, so don't let it hold on to (or build programs from) a file we are done with.
+			project.langServiceHost.removeScriptFileName(filePath);
+			host.deleteFile(filePath);
+		}
+		return {text: finalText, cursorOffset};
+	}
+
+	/**
+	 * Format an embedded language (@see embeddedTemplateEdits) using the prettier parser for that language.
+	 * The content is formatted with the same indentation settings as the rest of the file, and a printWidth reduced by the indentation it will be placed at.
+	 */
+	protected formatEmbedded(language: EmbeddedLanguage, text: string, indent: string, options: ParserOptions<TscNode> & TspPluginOptions, formatOpts: ts.FormatCodeSettings): string {
+		const indentWidth = indent.replace(/\t/g, ' '.repeat(options.tabWidth ?? formatOpts.tabSize ?? 1)).length;
+		const embeddedOptions = {
+			parser: EmbeddedParsers[language],
+			printWidth: Math.max((options.printWidth ?? 80) - indentWidth, 0),
+			tabWidth: formatOpts.indentSize,
+			useTabs: !formatOpts.convertTabsToSpaces,
+			singleQuote: options.singleQuote,
+			bracketSpacing: options.bracketSpacing,
+			endOfLine: 'lf' as const,
+			// Only prettier's own formatters (ts-pretty would otherwise format any <script> embedded in the html).
+			...builtinPluginsOnly()
 		};
+		const results = (options as any)[EmbeddedResultsKey] as EmbeddedResults | undefined;
+		const key = JSON.stringify([text, embeddedOptions]);
+		const known = results?.get(key);
+		if (typeof known === 'string')
+			return known;
+		if (known instanceof Error)
+			throw known;
+		if (prettierMajor() < 3)
+			return prettier2Format(text, embeddedOptions);
+		// Prettier 3 only formats asynchronously, so this template is left alone (for now), and the parser formats the file again once it has formatted the template (@see parseAsync).
+		results?.set(key, {text, options: embeddedOptions});
+		throw new Error(`Prettier ${prettierMajor()} can only format ${language} asynchronously`);
+	}
+
+	/**
+	 * Repeatedly break up the first line which is wider than printWidth (@see findLineBreak), and re-indent the lines that creates (using the same ts.FormatCodeSettings as everything else).
+	 * This continues until every line fits, or we can't find any way to break the lines which remain too wide.
+	 *
+	 * @param spans If specified, only lines within these spans are broken.
+	 * @returns The new text of the file.
+	 */
+	protected breakLongLines(languageService: ts.LanguageService, host: CustCompilerHost, filePath: string, languageVersion: ts.ScriptTarget, formatOpts: ts.FormatCodeSettings, printWidth: number, tabWidth: number, spans?: ts.TextRange[]): string {
+		let text = host.readFile(filePath)!;
+		const newLine = formatOpts.newLineCharacter ?? (text.includes('\r\n') ? '\r\n' : '\n');
+		const indentUnit = formatOpts.convertTabsToSpaces ? ' '.repeat(formatOpts.indentSize ?? 4) : '\t';
+		let from = 0;
+		for (let pass = 0; pass < MaxLineBreakPasses; pass++) {
+			const found = findLineBreak(host.getSourceFile(filePath, languageVersion)!, from, printWidth, tabWidth, spans);
+			if (!found)
+				break;
+			// The whitespace formatter re-indents each new line which starts with a token, but not one which starts with a comment (e.g. a comment in front of an element of the list),
+			// so every new line starts out indented as an element of the list.
+			const lineIndent = /^[ \t]*/.exec(text.substring(found.lineStart))![0];
+			const newText = newLine + lineIndent + indentUnit;
+			const breaks = found.breaks.map(pos => ({span: {start: pos, length: 0}, newText}));
+			const brokenText = host.applyTextChanges(filePath, breaks);
+			// Indent the lines we just created (and anything nested within them).
+			const end = brokenText.indexOf(newLine, found.end + breaks.length * newText.length);
+			const edits = languageService.getFormattingEditsForRange(filePath, found.lineStart, end < 0 ? brokenText.length : end, formatOpts);
+			const formattedText = host.applyTextChanges(filePath, edits);
+			spans = spans?.map(s => ({
+				pos: mapOffset(mapOffset(s.pos, text, breaks), brokenText, edits),
+				end: mapOffset(mapOffset(s.end, text, breaks), brokenText, edits)
+			}));
+			text = formattedText;
+			from = found.lineStart;
+		}
+		return text;
+	}
+
+	/**
+	 * Whitespace formatting for just the specified spans of a file.
+	 * ts.LanguageService.getFormattingEditsForRange formats whole lines, so we discard any edits that would touch text outside the spans
+	 * (except for the indentation in front of a span, since that is what positions the first line of the span).
+	 */
+	protected getFormattingEditsForSpans(languageService: ts.LanguageService, filePath: string, text: string, spans: ts.TextRange[], formatOpts: ts.FormatCodeSettings): ts.TextChange[] {
+		const edits = new Map<string, ts.TextChange>();
+		spans.forEach(span => {
+			let start = span.pos;
+			const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+			if (/^[ \t]*$/.test(text.substring(lineStart, start)))
+				start = lineStart;
+			languageService.getFormattingEditsForRange(filePath, start, span.end, formatOpts).forEach(edit => {
+				if (edit.span.start >= start && edit.span.start + edit.span.length <= span.end)
+					edits.set(`${edit.span.start}:${edit.span.length}`, edit);
+			});
+		});
+		return Array.from(edits.values());
 	}
 
 	/* istanbul ignore next */
-	locStart(node: TscNode): number {
+	locStart(node: TscAnyNode): number {
 		return node.start;
 	}
 	/* istanbul ignore next */
-	locEnd(node: TscNode): number {
+	locEnd(node: TscAnyNode): number {
 		return node.end;
 	}
 }
@@ -401,6 +1136,31 @@ class TypeScriptParser {
  */
 const parserInstance = new TypeScriptParser();
 
+/**
+ * Format TypeScript (or JavaScript) text without going through prettier (e.g. for code generators, or the ts-pretty command line).
+ * The text goes through exactly the same pipeline as it does when ts-pretty is used as a prettier plugin.
+ *
+ * @throws Error if the text has syntax errors (unless tspAllowSyntaxErrors is set), or any of the configuration is invalid.
+ */
+export function formatText(text: string, options: FormatTextOptions = {}): FormatTextResult {
+	return parserInstance.formatText(text, options);
+}
+
+/**
+ * The configuration files (tsconfig.json, ts-format.json and .editorconfig) ts-pretty has read (and cached) so far.
+ * A long-lived process (e.g. @see FormatDaemon) can watch these, and @see clearCaches when any of them change.
+ */
+export function cachedConfigFiles(): string[] {
+	return parserInstance.cachedConfigFiles();
+}
+
+/**
+ * Forget everything ts-pretty has cached (the configuration files it has read, and the ts.LanguageService instances built from them).
+ */
+export function clearCaches(): void {
+	parserInstance.clearCaches();
+}
+
 /**
  * Part of the prettier plugin API, we export these 'languages' collected from many samples across the internet
  * which hopefully accurately represent the TypeScript/JavaScript languages that the TypeScript Compiler API can handle.
@@ -464,72 +1224,131 @@ export const languages = [
 ];
 // Make a unique set of all the 'standard' prettier parser names we think we can replace.
 const knownParsers = new Set<string>(languages.map(l => l.parsers).flat(10));
-// Rename the builtin parsers so we can replace them, but still have a reference to them when a caller asks for --tspUseBuiltins
-const {parsers: babelParsers} = require('prettier/parser-babel');
-const builtIns = {
-	parsers: {
-		'builtin-espree': {
-			...require('prettier/parser-espree').parsers.espree
-		},
-		'builtin-meriyah': {
-			...require('prettier/parser-meriyah').parsers.meriyah
+
+/**
+ * The options which ask prettier to format the text with the builtin parser we replaced (@see builtinPlugins).
+ */
+function builtinFormatOptions(parserName: string, options: ParserOptions<TscNode> & TspPluginOptions): ParserOptions<TscNode> {
+	return {
+		...options,
+		parser: 'builtin-' + parserName,
+		plugins: builtinPlugins()
+	};
+}
+
+/**
+ * The node which just prints the text (as formatted by the builtin parser, if at all) when --tspDisable was set.
+ */
+function disabledNode(originalText: string, text: string): TscNode {
+	return {
+		type: 'tsc-ast',
+		source: originalText,
+		start: 0,
+		end: originalText.length,
+		body: text
+	};
+}
+
+/**
+ * The prettier 2 version of the wrapper parser (@see parsers).
+ */
+function prettier2Parser(parserName: string): Parser<TscNode> {
+	return {
+		/* istanbul ignore next */
+		locStart(node: TscAnyNode): number {
+			return parserInstance.locStart(node);
 		},
-		'builtin-typescript': {
-			...require('prettier/parser-typescript').parsers.typescript
+		/* istanbul ignore next */
+		locEnd(node: TscAnyNode): number {
+			return parserInstance.locEnd(node);
 		},
-		'builtin-babel': {
-			...babelParsers.babel
+		parse(text: string, parsers: { [_: string]: Parser }, options: ParserOptions<TscNode> & TspPluginOptions): TscNode {
+			const stashed = parserInstance.rangeResult(text, options);
+			if (stashed)
+				return stashed;
+			const origTxt = text;
+			if (options.tspUseBuiltins)
+				text = prettier2Format(origTxt, builtinFormatOptions(parserName, options));
+			if (options.tspDisable)
+				return disabledNode(origTxt, text);
+			return parserInstance.parse(text, options, origTxt);
 		},
-		'builtin-babel-ts': {
-			...babelParsers['babel-ts']
-		}
-	}
-};
+		hasPragma,
+		astFormat: 'tsc-ast'
+	};
+}
 
 /**
- * Part of the prettier plugin API, actually build wrapper parsers (one for each of the @see languages we support).
- * The wrapper handles invoking the previously registered parser for a language (if so requested), and then
- * optionally invokes the actual ts-pretty parser to do it's thing.
+ * The prettier 3 version of the wrapper parser (@see parsers).
+ * Prettier 3 awaits whatever the parser returns (and its format, which --tspUseBuiltins needs, is only asynchronous).
  */
-export const parsers = Array.from(knownParsers).reduce((parsers, parserName) => {
-	parsers[parserName] = {
+function prettier3Parser(parserName: string): Prettier3Parser<TscNode> {
+	return {
 		/* istanbul ignore next */
-		locStart(node: TscNode): number {
+		locStart(node: TscAnyNode): number {
 			return parserInstance.locStart(node);
 		},
 		/* istanbul ignore next */
-		locEnd(node: TscNode): number {
+		locEnd(node: TscAnyNode): number {
 			return parserInstance.locEnd(node);
 		},
-		parse(text: string, parsersInPrettierV2OrOptionsInPrettierV3: { [_: string]: Parser } | ParserOptions<TscNode>, optionsInPrettierV2AndV3?: ParserOptions<TscNode>): TscNode {
-			let options: ParserOptions<TscNode> & TspPluginOptions;
-			if (typeof (parsersInPrettierV2OrOptionsInPrettierV3 as any)[parserName] === 'function')
-				options = optionsInPrettierV2AndV3 as any;
-			else
-				options = parsersInPrettierV2OrOptionsInPrettierV3 as any;
-			const origTxt = text;
-			if (options.tspUseBuiltins) {
-				text = format(origTxt, {
-					...options,
-					parser: 'builtin-' + parserName,
-					plugins: [builtIns],
-				});
-			}
-			if (options.tspDisable) {
-				return {
-					type: 'tsc-ast',
-					source: origTxt,
-					start: 0,
-					end: origTxt.length,
-					body: text
-				};
-			}
-			return parserInstance.parse(text, options);
+		parse(text: string, options: ParserOptions<TscNode> & TspPluginOptions): Promise<TscNode> {
+			return parseAsync(parserName, text, options);
 		},
+		hasPragma,
 		astFormat: 'tsc-ast'
 	};
+}
+
+/**
+ * Embedded languages can only be formatted asynchronously, so the file is formatted again once each embedded template found while formatting it has been formatted (@see EmbeddedResults).
+ */
+async function parseAsync(parserName: string, text: string, options: ParserOptions<TscNode> & TspPluginOptions): Promise<TscNode> {
+	const stashed = parserInstance.rangeResult(text, options);
+	if (stashed)
+		return stashed;
+	const origTxt = text;
+	if (options.tspUseBuiltins)
+		text = await prettier3Format(origTxt, builtinFormatOptions(parserName, options));
+	if (options.tspDisable)
+		return disabledNode(origTxt, text);
+	const results: EmbeddedResults = new Map();
+	(options as any)[EmbeddedResultsKey] = results;
+	try {
+		let node = parserInstance.parse(text, options, origTxt);
+		// The second pass should find the very same templates as the first, but in case it does not, keep going (for a bounded number of passes).
+		for (let pass = 0; pass < 3; pass++) {
+			const pending = Array.from(results).filter((entry): entry is [string, PendingEmbeddedFormat] => typeof entry[1] !== 'string' && !(entry[1] instanceof Error));
+			if (pending.length === 0)
+				break;
+			for (const [key, embedded] of pending) {
+				try {
+					results.set(key, await prettier3Format(embedded.text, embedded.options));
+				}
+				catch (err) {
+					results.set(key, err as Error);
+				}
+			}
+			node = parserInstance.parse(text, options, origTxt);
+		}
+		return node;
+	}
+	finally {
+		delete (options as any)[EmbeddedResultsKey];
+	}
+}
+
+/**
+ * Part of the prettier plugin API, actually build wrapper parsers (one for each of the @see languages we support).
+ * The wrapper handles invoking the previously registered parser for a language (if so requested), and then
+ * optionally invokes the actual ts-pretty parser to do it's thing.
+ * NOTE:
+ *  Prettier 2 and 3 call a parser differently (@see Prettier3Parser), so the wrappers are built for the installed prettier.
+ */
+export const parsers = Array.from(knownParsers).reduce((parsers, parserName) => {
+	parsers[parserName] = prettierMajor() >= 3 ? prettier3Parser(parserName) : prettier2Parser(parserName);
 	return parsers;
-}, {} as Record<string, Parser<TscNode>>);
+}, {} as Record<string, Parser<TscNode> | Prettier3Parser<TscNode>>);
 
 /**
  * Our "printer" is really simple.
@@ -544,26 +1363,53 @@ class TypeScriptPrinter {
 	 *              It is called “path” because it represents the path to the current node from the root of the AST.
 	 *              The current node is returned by path.getValue().
 	 * @param options   A persistent object, which contains global options and which a plugin may mutate to store contextual data.
+	 * @param print A function prettier gives us to print child nodes (we only use it for the @see TscCursorNode, so that prettier can see where the cursor ended up).
 	 */
-	print(path: AstPath<TscNode>, options: ParserOptions<TscNode>): Doc {
+	print(path: AstPath<TscAnyNode>, options: ParserOptions<TscAnyNode>, print: (path: AstPath<TscAnyNode>) => Doc): Doc {
 		const node = path.getValue();
 		switch (node.type) {
 			case 'tsc-ast':
-				// This is the only node type we declare, so prettier will never send us anything else.
+				// This is the only "real" node type we declare, so prettier will never send us anything else (other than the cursor node below).
+				if (node.cursor)
+					return [node.body.substring(0, node.cursor.offset), path.call(print as (path: AstPath<TscCursorNode | undefined>) => Doc, 'cursor'), node.body.substring(node.cursor.offset + node.cursor.text.length)];
 				return node.body;
+			case 'tsc-cursor':
+				return node.text;
 			/* istanbul ignore next */
 			default:
 				/* istanbul ignore next */
 				console.error('Unknown tsc node:', node);
 				/* istanbul ignore next */
-				return node.source;
+				return '';
 		}
 	}
+
+	/**
+	 * Prettier calls this (when --insert-pragma is specified) with the text we printed.
+	 */
+	insertPragma(text: string): string {
+		return insertPragma(text);
+	}
+
+	/**
+	 * Prettier uses this to find the child nodes it needs for range formatting and cursor tracking (@see TscRangeNode and @see TscCursorNode).
+	 * We don't have any comments for it to attach.
+	 */
+	canAttachComment(node: unknown): boolean {
+		const type = typeof node === 'object' && node !== null ? (node as TscAnyNode).type : undefined;
+		return type === 'TscRangeStatement' || type === 'tsc-cursor';
+	}
 }
 
 /**
  * Part of the prettier plugin API, we only export a single 'printer' because we only generate a single ast node type.
  */
-export const printers: Record<string, Printer<TscNode>> = {
-	'tsc-ast': new TypeScriptPrinter()
+const printer = new TypeScriptPrinter();
+export const printers: Record<string, Printer<TscAnyNode>> = {
+	// Prettier 3 copies the printer's own properties (which would lose the methods of the class), so hand it a plain object.
+	'tsc-ast': {
+		print: printer.print.bind(printer),
+		insertPragma: printer.insertPragma.bind(printer),
+		canAttachComment: printer.canAttachComment.bind(printer)
+	}
 };
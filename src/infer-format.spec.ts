@@ -0,0 +1,30 @@
+import {parse as json5Parse} from 'json5';
+import ts from 'typescript';
+import {inferFormatSettings} from './infer-format';
+
+describe('inferFormatSettings', () => {
+	it('should infer the settings which produce the fewest edits', () => {
+		const inferred = inferFormatSettings(['./fixtures/infer']);
+		expect(inferred.files.length).toEqual(2);    // The declaration file is skipped
+		expect(inferred.settings.convertTabsToSpaces).toBeTrue();
+		expect(inferred.settings.indentSize).toEqual(2);
+		expect(inferred.settings.tabSize).toEqual(2);
+		expect(inferred.settings.insertSpaceBeforeFunctionParenthesis).toBeTrue();
+		expect(inferred.settings.insertSpaceAfterConstructor).toBeTrue();
+		expect(inferred.settings.semicolons).toEqual(ts.SemicolonPreference.Remove);
+		expect(inferred.stats.indentation).toEqual(jasmine.objectContaining({value: 'spaces 2', decidingFiles: 2, confidence: 1}));
+		expect(inferred.stats.semicolons.edits.Remove).toEqual(0);
+		// Nothing in the sample has JSX, so that is left to the preset.
+		expect(inferred.stats.insertSpaceAfterOpeningAndBeforeClosingJsxExpressionBraces.decidingFiles).toEqual(0);
+		expect('insertSpaceAfterOpeningAndBeforeClosingJsxExpressionBraces' in inferred.settings).toBeFalse();
+	});
+
+	it('should produce a ts-format.json describing the stats', () => {
+		const inferred = inferFormatSettings(['./fixtures/infer/src/shapes.ts']);
+		expect(inferred.files.length).toEqual(1);
+		expect(inferred.text).toContain('\t// 100% of the 1 deciding files (edits: spaces 4: ');
+		expect(inferred.text).toContain('\t"semicolons": "Remove"');
+		expect(json5Parse(inferred.text).insertSpaceBeforeFunctionParenthesis).toBeTrue();
+		expect(() => inferFormatSettings(['./fixtures/infer'], {maxFiles: 0})).toThrowError(/No source files found/);
+	});
+});
@@ -0,0 +1,202 @@
+import ts from 'typescript';
+import {CustCompilerHost} from './cust-compiler-host';
+import {CustLangServiceHost} from './cust-lang-service-host';
+import {findSourceFiles} from './source-files';
+import {FormatSettingTypes} from './ts-format-schema';
+
+/**
+ * Options for @see inferFormatSettings
+ */
+export interface InferFormatOptions {
+	/**
+	 * The most source files to sample (evenly spread across all those found), defaults to 50.
+	 */
+	maxFiles?: number;
+}
+
+/**
+ * How strongly the sampled files support the value chosen for a setting.
+ */
+export interface InferredSetting {
+	/**
+	 * The chosen value (e.g. 'true', 'Insert', or for the indentation, 'spaces 2').
+	 */
+	value: string;
+	/**
+	 * The total number of formatting edits each of the candidate values produces across the sampled files (keyed by value).
+	 */
+	edits: Record<string, number>;
+	/**
+	 * How many of the sampled files actually tell the candidate values apart (i.e. do not need the same number of edits for all of them).
+	 */
+	decidingFiles: number;
+	/**
+	 * The fraction (0 to 1) of the deciding files which need no more edits with the chosen value than with any other.
+	 */
+	confidence: number;
+}
+
+/**
+ * The result of @see inferFormatSettings
+ */
+export interface InferredFormat {
+	/**
+	 * The sampled source files.
+	 */
+	files: string[];
+	/**
+	 * The winning value of every setting which at least one sampled file decides.
+	 */
+	settings: ts.FormatCodeSettings;
+	/**
+	 * The evidence for every setting we tried to infer (keyed by setting name, with 'indentation' covering convertTabsToSpaces, indentSize and tabSize).
+	 */
+	stats: Record<string, InferredSetting>;
+	/**
+	 * The settings as the text of a ts-format.json (with the stats of each setting as a comment).
+	 */
+	text: string;
+}
+
+/**
+ * One of the values we try for a setting (a value may span several ts.FormatCodeSettings properties).
+ */
+interface Candidate {
+	label: string;
+	settings: ts.FormatCodeSettings;
+}
+
+/**
+ * 4 spaces (TypeScript's own default), 2 spaces, or tabs (indentSize and tabSize must agree, or tabs are mixed with spaces).
+ */
+const IndentationCandidates: Candidate[] = [
+	{label: 'spaces 4', settings: {convertTabsToSpaces: true, indentSize: 4, tabSize: 4}},
+	{label: 'spaces 2', settings: {convertTabsToSpaces: true, indentSize: 2, tabSize: 2}},
+	{label: 'tabs', settings: {convertTabsToSpaces: false, indentSize: 4, tabSize: 4}}
+];
+
+/**
+ * Settings which are not inferred (besides the number and string ones, which are either part of the indentation, or not something getFormattingEditsForDocument changes).
+ *  convertTabsToSpaces     Part of the indentation.
+ *  indentStyle             Only affects the indentation of a new line as it is typed.
+ *  trimTrailingWhitespace  Turning it off can never produce an edit, so it would always win.
+ */
+const NotInferred = ['convertTabsToSpaces', 'indentStyle', 'trimTrailingWhitespace'];
+
+/**
+ * Enum values which mean 'leave it alone', and so (like trimTrailingWhitespace) would always win.
+ */
+const LeaveAloneValues: Record<string, unknown> = {
+	semicolons: ts.SemicolonPreference.Ignore
+};
+
+/**
+ * Infer the ts.FormatCodeSettings a codebase is already written in (for instance, to write a ts-format.json which lets ts-pretty be adopted without a gigantic diff).
+ * For each setting, we measure which of its values produces the fewest ts.LanguageService.getFormattingEditsForDocument edits across a sample of the source files.
+ * Settings interact (e.g. the indentation changes the edit count of everything else), so each setting is measured while holding all the others at their best value so far, and this is repeated until nothing changes.
+ * NOTE:
+ *  Where the sampled files do not tell the values of a setting apart (e.g. no JSX), the setting is left out, so that it falls back to the preset.
+ *
+ * @param fileOrDirNames    Source files, and/or directories to search (recursively, skipping node_modules and declaration files) for source files.
+ * @throws Error if there are no source files.
+ */
+export function inferFormatSettings(fileOrDirNames: string[], options?: InferFormatOptions): InferredFormat {
+	const files = sampleFiles(findSourceFiles(fileOrDirNames), options?.maxFiles ?? 50);
+	if (files.length === 0)
+		throw new Error(`No source files found (to infer formatting settings from) in ${fileOrDirNames.join(', ')}`);
+	const langServiceHost = new CustLangServiceHost(new CustCompilerHost(), {allowJs: true});
+	files.forEach(f => langServiceHost.addScriptFileName(f));
+	// Formatting is purely syntactic, so there is no need for the language service to build a program (or read any lib.d.ts files).
+	const languageService = ts.createLanguageService(langServiceHost, undefined, ts.LanguageServiceMode.Syntactic);
+	try {
+		const base = ts.getDefaultFormatCodeSettings('\n');
+		const inferable = inferableSettings(base);
+		const chosen = new Map<string, number>(inferable.map(i => [i.name, 0]));
+		const currentSettings = () => inferable.reduce((settings, i) => ({...settings, ...i.candidates[chosen.get(i.name)!].settings}), base);
+		const stats: Record<string, InferredSetting> = {};
+		for (let pass = 0, changed = true; changed && pass < 3; pass++) {
+			changed = false;
+			inferable.forEach(i => {
+				const current = currentSettings();
+				const perFile = files.map(f => i.candidates.map(c => languageService.getFormattingEditsForDocument(f, {...current, ...c.settings}).length));
+				const totals = i.candidates.map((_, c) => perFile.reduce((sum, counts) => sum + counts[c], 0));
+				// Ties go to the earlier candidate (i.e. TypeScript's own default).
+				const best = totals.reduce((b, total, c) => total < totals[b] ? c : b, 0);
+				const deciding = perFile.filter(counts => counts.some(n => n !== counts[0]));
+				stats[i.name] = {
+					value: i.candidates[best].label,
+					edits: i.candidates.reduce((edits, c, idx) => ({...edits, [c.label]: totals[idx]}), {} as Record<string, number>),
+					decidingFiles: deciding.length,
+					confidence: deciding.length === 0 ? 0 : deciding.filter(counts => counts[best] === Math.min(...counts)).length / deciding.length
+				};
+				if (chosen.get(i.name) !== best) {
+					chosen.set(i.name, best);
+					changed = true;
+				}
+			});
+		}
+		const decided = inferable.filter(i => stats[i.name].decidingFiles > 0);
+		const settings = decided.reduce((result, i) => ({...result, ...i.candidates[chosen.get(i.name)!].settings}), {} as ts.FormatCodeSettings);
+		return {
+			files,
+			settings,
+			stats,
+			text: tsFormatText(decided.map(i => ({stats: stats[i.name], settings: i.candidates[chosen.get(i.name)!].settings})))
+		};
+	}
+	finally {
+		languageService.dispose();
+	}
+}
+
+/**
+ * The settings to infer, each with its candidate values (TypeScript's own default first).
+ */
+function inferableSettings(defaults: ts.FormatCodeSettings): { name: string, candidates: Candidate[] }[] {
+	const result = [{name: 'indentation', candidates: IndentationCandidates}];
+	(Object.keys(FormatSettingTypes) as (keyof typeof FormatSettingTypes)[]).filter(key => !NotInferred.includes(key)).forEach(key => {
+		const type = FormatSettingTypes[key];
+		if (type === 'boolean') {
+			const dflt = !!defaults[key];
+			result.push({name: key, candidates: [dflt, !dflt].map(value => ({label: String(value), settings: {[key]: value}}))});
+		}
+		else if (typeof type === 'object') {
+			const names = Object.keys(type).filter(name => type[name] !== LeaveAloneValues[key]);
+			names.sort((a, b) => Number(type[b] === defaults[key]) - Number(type[a] === defaults[key]));
+			result.push({name: key, candidates: names.map(name => ({label: name, settings: {[key]: type[name]}}))});
+		}
+	});
+	return result;
+}
+
+/**
+ * At most max files, evenly spread across them all.
+ */
+function sampleFiles(files: string[], max: number): string[] {
+	if (files.length <= max)
+		return files;
+	return Array.from({length: max}, (_, i) => files[Math.floor(i * files.length / max)]);
+}
+
+/**
+ * The text of a ts-format.json (JSON5, so that each setting can be preceded by a comment describing its stats).
+ */
+function tsFormatText(decided: { stats: InferredSetting, settings: ts.FormatCodeSettings }[]): string {
+	const lines: string[] = [];
+	decided.forEach(({stats, settings}) => {
+		const edits = Object.keys(stats.edits).map(label => `${label}: ${stats.edits[label]}`).join(', ');
+		lines.push(`\t// ${Math.round(stats.confidence * 100)}% of the ${stats.decidingFiles} deciding files (edits: ${edits})`);
+		Object.keys(settings).forEach(key => {
+			let value = (settings as Record<string, unknown>)[key];
+			const type = FormatSettingTypes[key as keyof typeof FormatSettingTypes];
+			if (typeof type === 'object')
+				value = Object.keys(type).find(name => type[name] === value);    // Enums by name, for readability.
+			lines.push(`\t${JSON.stringify(key)}: ${JSON.stringify(value)},`);
+		});
+	});
+	// No trailing comma after the last setting.
+	const last = lines.length - 1;
+	if (last >= 0)
+		lines[last] = lines[last].replace(/,$/, '');
+	return ['{', ...lines, '}', ''].join('\n');
+}
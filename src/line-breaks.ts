@@ -0,0 +1,165 @@
+import ts from 'typescript';
+
+/**
+ * A line which is too wide, and where to insert newlines in order to break it up.
+ */
+export interface LineBreak {
+	/**
+	 * Start of the line which is too wide.
+	 */
+	lineStart: number;
+	/**
+	 * End of the code affected by the newlines (which may extend beyond the line, e.g. when breaking the arguments of a call whose last argument is a function).
+	 */
+	end: number;
+	/**
+	 * Ascending positions at which a newline should be inserted.
+	 */
+	breaks: number[];
+}
+
+/**
+ * Find the first line (starting at or after 'from') that is wider than printWidth, and which contains a list we know how to break.
+ * The text of the source file is expected to already be indented (so that we can measure it exactly as it will be written).
+ * We break the outermost list on the line (prettier also prefers to break the outermost group first), placing one element per line.
+ * Lists we know how to break are argument lists, (type) parameter lists, array and object literals, named imports/exports, union types, and method chains.
+ *
+ * @param tabWidth  Number of columns a tab character occupies.
+ * @param spans If specified, only lines (and lists) within these spans are considered.
+ */
+export function findLineBreak(sourceFile: ts.SourceFile, from: number, printWidth: number, tabWidth: number, spans?: ts.TextRange[]): LineBreak | undefined {
+	const text = sourceFile.text;
+	const lineStarts = sourceFile.getLineStarts();
+	for (let line = sourceFile.getLineAndCharacterOfPosition(from).line; line < lineStarts.length; line++) {
+		const lineStart = lineStarts[line];
+		const lineEnd = line + 1 < lineStarts.length ? lineStarts[line + 1] : text.length;
+		const lineText = text.substring(lineStart, lineEnd).replace(/[\r\n]+$/, '');
+		if (measureWidth(lineText, tabWidth) <= printWidth)
+			continue;
+		const span = spans ? spans.find(s => s.pos < lineEnd && s.end > lineStart) : undefined;
+		if (spans && !span)
+			continue;
+		const candidates = findCandidates(sourceFile, lineStart, lineStart + lineText.length, printWidth, tabWidth)
+			.filter(c => !span || (c.breaks[0] >= span.pos && c.breaks[c.breaks.length - 1] <= span.end))
+			.sort((a, b) => a.start - b.start || b.end - a.end);
+		if (candidates.length > 0)
+			return {lineStart, end: candidates[0].end, breaks: candidates[0].breaks};
+	}
+	return undefined;
+}
+
+/**
+ * Columns occupied by a line of text (where a tab occupies tabWidth columns, just as prettier counts them).
+ */
+function measureWidth(lineText: string, tabWidth: number): number {
+	let width = 0;
+	for (const ch of lineText)
+		width += ch === '\t' ? tabWidth : 1;
+	return width;
+}
+
+/**
+ * Every (not already broken) list whose first break would be on the specified line.
+ */
+function findCandidates(sourceFile: ts.SourceFile, lineStart: number, lineEnd: number, printWidth: number, tabWidth: number): { start: number, end: number, breaks: number[] }[] {
+	const result: { start: number, end: number, breaks: number[] }[] = [];
+
+	function visit(node: ts.Node) {
+		// Like prettier, we never break the expressions embedded in a template literal.
+		if (node.end < lineStart || node.getStart(sourceFile) >= lineEnd || ts.isTemplateExpression(node))
+			return;
+		const candidate = breakListsOf(node, sourceFile, lineStart, printWidth, tabWidth);
+		if (candidate && candidate.breaks[0] >= lineStart && candidate.breaks[0] < lineEnd)
+			result.push({start: node.getStart(sourceFile), ...candidate});
+		ts.forEachChild(node, visit);
+	}
+
+	ts.forEachChild(sourceFile, visit);
+	return result;
+}
+
+/**
+ * If the node owns a list we know how to break, return where the newlines would go.
+ * Like prettier, type parameters are only broken when the line is too wide even before the parameters (or body) which follow them.
+ */
+function breakListsOf(node: ts.Node, sourceFile: ts.SourceFile, lineStart: number, printWidth: number, tabWidth: number): { end: number, breaks: number[] } | undefined {
+	if (ts.isCallExpression(node)) {
+		const chain = chainBreaks(node, sourceFile);
+		if (chain)
+			return chain;
+	}
+	if ((ts.isCallExpression(node) || ts.isNewExpression(node)) && node.arguments)
+		return delimitedListBreaks(node, node.arguments, sourceFile);
+	if ((ts.isFunctionLike(node) || ts.isClassLike(node) || ts.isInterfaceDeclaration(node) || ts.isTypeAliasDeclaration(node)) && node.typeParameters) {
+		// The closing '>' is the last character which has to fit.
+		const typeParametersEnd = node.typeParameters.end + 1;
+		if (typeParametersEnd > lineStart && measureWidth(sourceFile.text.substring(lineStart, typeParametersEnd), tabWidth) > printWidth)
+			return delimitedListBreaks(node, node.typeParameters, sourceFile);
+	}
+	if (ts.isFunctionLike(node))
+		return delimitedListBreaks(node, node.parameters, sourceFile);
+	if (ts.isArrayLiteralExpression(node))
+		return delimitedListBreaks(node, node.elements, sourceFile);
+	if (ts.isObjectLiteralExpression(node))
+		return delimitedListBreaks(node, node.properties, sourceFile);
+	if (ts.isNamedImports(node) || ts.isNamedExports(node))
+		return delimitedListBreaks(node, node.elements, sourceFile);
+	if (ts.isUnionTypeNode(node) && !ts.isUnionTypeNode(node.parent)) {
+		const types = node.types;
+		if (types.length < 2 || containsNewline(sourceFile.text, types[0].end, types[1].getStart(sourceFile)))
+			return undefined;
+		// Prettier places each '|' at the start of a line.
+		return {end: node.end, breaks: types.slice(0, -1).map(t => t.end)};
+	}
+	return undefined;
+}
+
+/**
+ * Break a list delimited by brackets (e.g. '(...)', '[...]', '{...}', '<...>') before each element, and before the closing bracket.
+ */
+function delimitedListBreaks(owner: ts.Node, list: ts.NodeArray<ts.Node>, sourceFile: ts.SourceFile): { end: number, breaks: number[] } | undefined {
+	const text = sourceFile.text;
+	// For example, the single parameter of 'x => x' has no parentheses (and the character in front of it may belong to some other list).
+	if (list.length === 0 || !'([{<'.includes(text[list.pos - 1]) || list.pos - 1 < owner.getStart(sourceFile))
+		return undefined;
+	if (containsNewline(text, list.pos, list[0].getStart(sourceFile)))
+		return undefined;
+	const scanner = ts.createScanner(sourceFile.languageVersion, false, sourceFile.languageVariant, text, undefined, list.end);
+	let token = scanner.scan();
+	if (token === ts.SyntaxKind.CommaToken)
+		token = scanner.scan();
+	const closer = scanner.getTokenPos();
+	// Break after the whitespace in front of each element (but before any comment), so that a comment moves to the new line along with its element (and is indented the same).
+	return {end: closer + 1, breaks: list.map(n => n.pos + /^[ \t]*/.exec(text.substring(n.pos, n.end))![0].length).concat(closer)};
+}
+
+/**
+ * Break a method chain (e.g. a.b().c().d()) before each '.' that is followed by a call.
+ * Only chains of two or more calls are broken (otherwise it is the argument list that should be broken).
+ */
+function chainBreaks(node: ts.CallExpression, sourceFile: ts.SourceFile): { end: number, breaks: number[] } | undefined {
+	// Only the outermost call of a chain owns the chain.
+	if (ts.isPropertyAccessExpression(node.parent) && ts.isCallExpression(node.parent.parent) && node.parent.parent.expression === node.parent)
+		return undefined;
+	const breaks: number[] = [];
+	let expr: ts.Expression = node;
+	for (; ;) {
+		if (ts.isCallExpression(expr) && ts.isPropertyAccessExpression(expr.expression)) {
+			breaks.unshift(expr.expression.expression.end);
+			expr = expr.expression.expression;
+		}
+		else if (ts.isCallExpression(expr) || ts.isPropertyAccessExpression(expr) || ts.isElementAccessExpression(expr) || ts.isNonNullExpression(expr))
+			expr = expr.expression;
+		else
+			break;
+	}
+	if (breaks.length < 2)
+		return undefined;
+	if (breaks.slice(1).some((pos, i) => containsNewline(sourceFile.text, breaks[i], pos)))
+		return undefined;
+	return {end: node.end, breaks};
+}
+
+function containsNewline(text: string, start: number, end: number): boolean {
+	return /[\r\n]/.test(text.substring(start, end));
+}
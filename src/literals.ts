@@ -0,0 +1,51 @@
+import ts from 'typescript';
+
+/**
+ * Transformer which rewrites numeric (and bigint) literals in a canonical form (@see normalizeNumber).
+ * NOTE:
+ *  Like string literals, ts.Printer re-uses the source text of numeric literals, so a literal which should be written differently is replaced with a new (detached) one.
+ */
+export function numericLiteralTransformer(sourceFile: ts.SourceFile): ts.TransformerFactory<ts.Node> {
+	return context => {
+		const {factory} = context;
+
+		function visit(node: ts.Node): ts.Node {
+			if (!(ts.isNumericLiteral(node) || ts.isBigIntLiteral(node)) || !node.parent)
+				return ts.visitEachChild(node, visit, context);
+			const raw = node.getText(sourceFile);
+			const normalized = normalizeNumber(raw);
+			if (normalized === raw)
+				return node;
+			const newNode = ts.isNumericLiteral(node) ? factory.createNumericLiteral(normalized) : factory.createBigIntLiteral(normalized);
+			return ts.setOriginalNode(ts.setTextRange(newNode, node), node);
+		}
+
+		return visit;
+	};
+}
+
+/**
+ * Write a numeric (or bigint) literal in a canonical form (prettier's, except that hex digits are uppercased):
+ *  Lowercase prefixes (0x, 0o, 0b), exponents and the bigint suffix, but uppercase hex digits.
+ *  Remove the '+' sign and leading zeros from exponents (and the exponent itself if it is zero).
+ *  Remove trailing zeros (and a trailing dot) from the fraction, and add a leading zero to a fraction without an integer part.
+ * Legacy octal literals (e.g. 017) and literals containing numeric separators are only changed by lowercasing.
+ */
+function normalizeNumber(raw: string): string {
+	const lower = raw.toLowerCase();
+	if (/^0[xob]/.test(lower))
+		return lower.startsWith('0x') ? '0x' + lower.substring(2).replace(/[a-f]/g, c => c.toUpperCase()) : lower;
+	if (/^0\d/.test(lower) || lower.includes('_') || lower.endsWith('n'))
+		return lower;
+	return lower
+		// Remove unnecessary plus and zeroes from scientific notation.
+		.replace(/^([\d.]+e)(?:\+|(-))?0*(\d)/, '$1$2$3')
+		// Remove unnecessary scientific notation (1x).
+		.replace(/^([\d.]+)e[+-]?0+$/, '$1')
+		// Make sure numbers always start with a digit.
+		.replace(/^\./, '0.')
+		// Remove extraneous trailing decimal zeroes.
+		.replace(/(\.\d+?)0+(?=e|$)/, '$1')
+		// Remove trailing dot.
+		.replace(/\.(?=e|$)/, '');
+}
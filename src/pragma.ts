@@ -0,0 +1,50 @@
+import ts from 'typescript';
+
+/**
+ * The docblock pragmas prettier recognizes (e.g. when run with --require-pragma).
+ */
+const Pragma = /^\s*\*?\s*@(format|prettier)\b/m;
+
+/**
+ * The first comment of the file (after any shebang), if it is a docblock (i.e. /** ... *\/).
+ */
+function findDocblock(text: string): ts.CommentRange | undefined {
+	const start = ts.getShebang(text)?.length ?? 0;
+	const first = ts.getLeadingCommentRanges(text, start)?.[0];
+	if (first && text.startsWith('/**', first.pos))
+		return first;
+	return undefined;
+}
+
+/**
+ * Part of the prettier plugin API (used for --require-pragma).
+ * True if the docblock at the top of the file contains a @format or @prettier pragma.
+ */
+export function hasPragma(text: string): boolean {
+	const docblock = findDocblock(text);
+	return !!docblock && Pragma.test(text.substring(docblock.pos + 3, docblock.end - 2));
+}
+
+/**
+ * Part of the prettier plugin API (used for --insert-pragma).
+ * Add a @format pragma to the docblock at the top of the file (creating the docblock if there is not one).
+ */
+export function insertPragma(text: string): string {
+	const docblock = findDocblock(text);
+	if (!docblock) {
+		const start = ts.getShebang(text)?.length ?? 0;
+		const shebang = text.substring(0, start);
+		return shebang + (shebang ? '\n' : '') + '/** @format */\n\n' + text.substring(start).replace(/^\s*\n/, '');
+	}
+	const newLine = text.includes('\r\n') ? '\r\n' : '\n';
+	const lines = text.substring(docblock.pos + 3, docblock.end - 2).split(/\r?\n/).map(line => line.replace(/^\s*\*?\s?/, '').trimEnd());
+	while (lines.length > 0 && lines[0] === '')
+		lines.shift();
+	while (lines.length > 0 && lines[lines.length - 1] === '')
+		lines.pop();
+	if (lines.length > 0)
+		lines.push('');
+	lines.push('@format');
+	const newDocblock = '/**' + newLine + lines.map(line => line ? ` * ${line}` : ' *').join(newLine) + newLine + ' */';
+	return text.substring(0, docblock.pos) + newDocblock + text.substring(docblock.end);
+}
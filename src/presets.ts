@@ -0,0 +1,88 @@
+import {createRequire} from 'module';
+import * as os from 'os';
+import * as path from 'path';
+import ts from 'typescript';
+import {validateTsFormat} from './ts-format-schema';
+
+/**
+ * My own personal preferences :-)
+ */
+const AuthorFormatCodeSettings: ts.FormatCodeSettings = {
+	baseIndentSize: 0,
+	newLineCharacter: os.EOL,
+	// Space takes up at least twice as much disk space as a tab :-)
+	// If you really want to see two 'spaces', use a tab and set indentSize/width to 2 in your editor
+	convertTabsToSpaces: false,
+	tabSize: 1,
+	indentSize: 1,
+	indentStyle: ts.IndentStyle.Smart,
+	trimTrailingWhitespace: true,
+	insertSpaceAfterCommaDelimiter: true,
+	insertSpaceAfterSemicolonInForStatements: true,
+	insertSpaceBeforeAndAfterBinaryOperators: true,
+	insertSpaceAfterConstructor: true,
+	insertSpaceAfterKeywordsInControlFlowStatements: true,
+	insertSpaceAfterFunctionKeywordForAnonymousFunctions: true,
+	insertSpaceAfterOpeningAndBeforeClosingNonemptyParenthesis: false,
+	insertSpaceAfterOpeningAndBeforeClosingNonemptyBrackets: false,
+	insertSpaceAfterOpeningAndBeforeClosingNonemptyBraces: true,
+	insertSpaceAfterOpeningAndBeforeClosingEmptyBraces: false,
+	insertSpaceAfterOpeningAndBeforeClosingTemplateStringBraces: false,
+	insertSpaceAfterOpeningAndBeforeClosingJsxExpressionBraces: false,
+	insertSpaceAfterTypeAssertion: true,
+	insertSpaceBeforeFunctionParenthesis: false,
+	placeOpenBraceOnNewLineForFunctions: false,
+	placeOpenBraceOnNewLineForControlBlocks: false,
+	insertSpaceBeforeTypeAnnotation: false,
+	indentMultiLineObjectLiteralBeginningOnBlankLine: true,
+	semicolons: ts.SemicolonPreference.Insert
+};
+
+/**
+ * The built in presets (@see resolvePreset):
+ *  author  The formatting options that are appealing to me personally (and the default).
+ *  vscode  What TypeScript itself (and so VS Code) does out of the box.
+ *  allman  Like vscode, but with the opening braces of functions and control blocks on a new line.
+ */
+const FormatPresets: Record<string, ts.FormatCodeSettings> = {
+	author: AuthorFormatCodeSettings,
+	vscode: ts.getDefaultFormatCodeSettings(os.EOL),
+	allman: {
+		...ts.getDefaultFormatCodeSettings(os.EOL),
+		placeOpenBraceOnNewLineForFunctions: true,
+		placeOpenBraceOnNewLineForControlBlocks: true
+	}
+};
+
+/**
+ * The ts.FormatCodeSettings a preset starts from.
+ * A preset is either one of the built in presets (@see FormatPresets), or the name of an npm package (or path of a module) which exports the settings (as its default export, or as the module itself).
+ * Like a ts-format.json, the exported settings are validated, and may give enums by name (@see validateTsFormat).
+ * Anything the exported settings leave out is taken from TypeScript's own defaults (i.e. the vscode preset).
+ *
+ * @param filePath  The file being formatted (if there is one), so that a package is resolved the same way the project's own code would resolve it.
+ * @throws Error if the preset is neither built in, nor a module which can be loaded (or its settings are not valid).
+ */
+export function resolvePreset(preset: string | undefined, filePath: string | undefined): ts.FormatCodeSettings {
+	if (!preset)
+		return FormatPresets.author;
+	if (Object.prototype.hasOwnProperty.call(FormatPresets, preset))
+		return FormatPresets[preset];
+	// NOTE: A require created for the file's directory, so that node's module resolution starts there (and so that a bundler leaves it alone).
+	const dir = filePath ? path.dirname(path.resolve(filePath)) : path.resolve('./');
+	let exported: unknown;
+	try {
+		const loaded = createRequire(path.join(dir, 'noop.js'))(preset);
+		exported = loaded?.default ?? loaded;
+	}
+	catch (err) {
+		throw new Error(`Unknown tspPreset '${preset}' (expected one of ${Object.keys(FormatPresets).join(', ')}, or a module exporting ts.FormatCodeSettings): ${(err as Error).message}`);
+	}
+	const settings = validateTsFormat(exported, `tspPreset '${preset}'`);
+	// NOTE: A preset is just settings, which apply to every file (only a ts-format.json can stop the search at a 'root', or override settings for some of the files).
+	const fileOnly = ['root', 'overrides'].filter(key => key in settings);
+	if (fileOnly.length > 0)
+		throw new Error(`Invalid tspPreset '${preset}': ${fileOnly.map(key => `"${key}"`).join(' and ')} can only be given in a ts-format.json (a preset is flat settings only)`);
+	delete settings.$schema;
+	return {...FormatPresets.vscode, ...settings};
+}
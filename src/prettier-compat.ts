@@ -0,0 +1,68 @@
+import type {Options, Parser, ParserOptions, Plugin} from 'prettier';
+
+/**
+ * The major version of the installed prettier (2 or 3).
+ * NOTE:
+ *  Everything ts-pretty needs from prettier at runtime is required (lazily) through this module, since the modules differ between the majors (e.g. prettier/parser-babel became prettier/plugins/babel).
+ */
+export function prettierMajor(): number {
+	return Number((require('prettier/package.json') as { version: string }).version.split('.')[0]);
+}
+
+/**
+ * Prettier 2's (synchronous) format function.
+ */
+export function prettier2Format(text: string, options: Options): string {
+	return (require('prettier') as { format(text: string, options: Options): string }).format(text, options);
+}
+
+/**
+ * Prettier 3's (asynchronous) format function.
+ */
+export function prettier3Format(text: string, options: Options): Promise<string> {
+	return (require('prettier') as { format(text: string, options: Options): Promise<string> }).format(text, options);
+}
+
+/**
+ * A parser as prettier 3 calls it (the typings we build against are prettier 2's, @see Parser).
+ * Prettier 3 no longer passes the other parsers, and awaits whatever the parser returns.
+ */
+export interface Prettier3Parser<T> extends Omit<Parser<T>, 'parse'> {
+	parse(text: string, options: ParserOptions<T>): Promise<T>;
+}
+
+/**
+ * The options which stop prettier from loading any plugin other than its own (prettier 3 no longer searches for plugins, and warns about the option).
+ */
+export function builtinPluginsOnly(): Options {
+	return prettierMajor() >= 3 ? {plugins: []} : {plugins: [], pluginSearchDirs: false};
+}
+
+/**
+ * The builtin JavaScript and TypeScript parsers, renamed (e.g. 'builtin-babel') so that ts-pretty can replace the originals, but still delegate to them (@see TspPluginOptions.tspUseBuiltins).
+ * In prettier 3 the parsers are plugins of their own, and the estree printer they need is a separate plugin.
+ */
+export function builtinPlugins(): Plugin[] {
+	if (prettierMajor() >= 3) {
+		const babelParsers = require('prettier/plugins/babel').parsers;
+		return [require('prettier/plugins/estree') as Plugin, {
+			parsers: {
+				'builtin-espree': {...require('prettier/plugins/acorn').parsers.espree},
+				'builtin-meriyah': {...require('prettier/plugins/meriyah').parsers.meriyah},
+				'builtin-typescript': {...require('prettier/plugins/typescript').parsers.typescript},
+				'builtin-babel': {...babelParsers.babel},
+				'builtin-babel-ts': {...babelParsers['babel-ts']}
+			}
+		}];
+	}
+	const babelParsers = require('prettier/parser-babel').parsers;
+	return [{
+		parsers: {
+			'builtin-espree': {...require('prettier/parser-espree').parsers.espree},
+			'builtin-meriyah': {...require('prettier/parser-meriyah').parsers.meriyah},
+			'builtin-typescript': {...require('prettier/parser-typescript').parsers.typescript},
+			'builtin-babel': {...babelParsers.babel},
+			'builtin-babel-ts': {...babelParsers['babel-ts']}
+		}
+	}];
+}
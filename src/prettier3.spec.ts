@@ -0,0 +1,86 @@
+import {execFileSync} from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * The same plugin, driven by prettier 3 (installed as 'prettier3' alongside prettier 2).
+ * NOTE:
+ *  The checks run in a child process whose working directory is a small package, in which 'prettier' is prettier 3 (and src, scripts and fixtures link back to this repo).
+ *  Node is told to preserve the symlinks, so ts-pretty's own requires of prettier (@see prettier-compat) resolve within that package, just as they would if prettier 3 were the only prettier installed.
+ *  Anything else is found through NODE_PATH.
+ */
+describe('ts-pretty with prettier 3', () => {
+	const originalTimeout = jasmine.DEFAULT_TIMEOUT_INTERVAL;
+	const root = path.resolve(__dirname, '..');
+	let dir: string;
+	let results: Record<string, string>;
+
+	// Each result is keyed by the name of the check which produced it.
+	const checks = `
+		const fs = require('fs');
+		const path = require('path');
+		const {format, formatWithCursor} = require('prettier');
+		const plugin = require('./src');
+		const opts = {parser: 'typescript', tspTsConfig: 'ignore', plugins: [plugin]};
+		(async () => {
+			const results = {version: require('prettier/package.json').version};
+			results.embedded = await format('function foo( a:number ) {\\nreturn a+1\\n}\\nconst style = css\`a{color:red}\`;\\n', opts);
+			const input = fs.readFileSync('./fixtures/input/js-sample.js', 'utf8');
+			results.builtin = await format(input, {parser: 'espree', plugins: []});
+			results.delegated = await format(input, {tspUseBuiltins: true, tspDisable: true, parser: 'espree', plugins: [plugin]});
+			results.range = await format('let  a=1\\nlet  b=2\\n', {...opts, rangeStart: 12, rangeEnd: 13});
+			const cursorInput = 'const   a  =  1;\\nfunction foo( value:number ) {\\n\\treturn   value+a;\\n}\\n';
+			const cursor = await formatWithCursor(cursorInput, {...opts, cursorOffset: cursorInput.indexOf('value+a')});
+			results.cursor = cursor.formatted.substring(cursor.cursorOffset);
+			results.pragma = await format('const   a = 1;\\n', {...opts, insertPragma: true});
+			results.byPath = await format('let  a=1\\n', {parser: 'babel', tspTsConfig: 'ignore', plugins: [path.resolve('scripts/index.js')]});
+			process.stdout.write(JSON.stringify(results));
+		})().catch(err => {
+			process.stderr.write(String(err && err.stack || err));
+			process.exitCode = 1;
+		});
+	`;
+
+	beforeAll(() => {
+		jasmine.DEFAULT_TIMEOUT_INTERVAL = 120000;
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tsp-prettier3-'));
+		fs.mkdirSync(path.join(dir, 'node_modules'));
+		fs.symlinkSync(path.join(root, 'node_modules', 'prettier3'), path.join(dir, 'node_modules', 'prettier'), 'junction');
+		for (const name of ['src', 'scripts', 'fixtures'])
+			fs.symlinkSync(path.join(root, name), path.join(dir, name), 'junction');
+		const output = execFileSync(process.execPath, ['--preserve-symlinks', '--require', require.resolve('ts-node/register/transpile-only'), '--eval', checks], {
+			cwd: dir,
+			env: {...process.env, NODE_PATH: path.join(root, 'node_modules'), TS_NODE_PROJECT: path.join(root, 'tsconfig.spec.json')},
+			encoding: 'utf8',
+			timeout: 110000
+		});
+		results = JSON.parse(output) as Record<string, string>;
+	});
+	afterAll(() => {
+		fs.rmSync(dir, {recursive: true, force: true});
+		jasmine.DEFAULT_TIMEOUT_INTERVAL = originalTimeout;
+	});
+
+	it('should be driven by prettier 3', () => {
+		expect(results.version).toMatch(/^3\./);
+	});
+
+	it('should format asynchronously (including embedded languages)', () => {
+		expect(results.embedded).toEqual('function foo(a: number) {\n  return a + 1;\n}\nconst style = css`\n  a {\n    color: red;\n  }\n`;\n');
+	});
+
+	it('should delegate to the builtin parsers', () => {
+		expect(results.delegated).toEqual(results.builtin);
+	});
+
+	it('should format a range, and track the cursor', () => {
+		expect(results.range).toEqual('let  a=1\nlet b = 2;\n');
+		expect(results.cursor).toMatch(/^value \+ a;/);
+		expect(results.pragma).toEqual('/** @format */\nconst a = 1;\n');
+	});
+
+	it('should be loadable by path (prettier 3 imports plugins as ES modules)', () => {
+		expect(results.byPath).toEqual('let a = 1;\n');
+	});
+});
@@ -0,0 +1,65 @@
+import ts from 'typescript';
+import {CustCompilerHost} from './cust-compiler-host';
+import {CustLangServiceHost} from './cust-lang-service-host';
+
+/**
+ * Everything needed to format source files which share the same tsconfig.json and compiler options.
+ */
+export interface Project {
+	host: CustCompilerHost;
+	langServiceHost: CustLangServiceHost;
+	languageService: ts.LanguageService;
+	compilerOptions: ts.CompilerOptions;
+}
+
+/**
+ * Long-lived cache of @see Project instances, keyed by the (resolved) tsconfig.json path and the compiler options it produced.
+ * Creating a ts.LanguageService (and parsing the lib.d.ts files its ts.Program needs) is by far the most expensive part of formatting a file.
+ * So instead of creating them for every file, we keep them around for the duration of the prettier run, and only swap the file being formatted in and out.
+ * All ts.LanguageService instances share a single ts.DocumentRegistry, which allows them to share the (immutable) lib source files as well.
+ * The number of cached projects is bounded, and the least recently used project is disposed of when that bound is exceeded.
+ */
+export class ProjectCache {
+	constructor(protected maxProjects = 8) {
+		this.projects = new Map<string, Project>();
+		this.documentRegistry = ts.createDocumentRegistry(ts.sys.useCaseSensitiveFileNames, ts.sys.getCurrentDirectory());
+	}
+
+	protected projects: Map<string, Project>;
+	protected documentRegistry: ts.DocumentRegistry;
+
+	/**
+	 * Return the cached @see Project for this tsconfig.json and compiler options, creating it if needed.
+	 */
+	public acquire(tsConfigPath: string | undefined | null, compilerOptions: ts.CompilerOptions): Project {
+		const key = (tsConfigPath ?? '') + '|' + JSON.stringify(compilerOptions);
+		let project = this.projects.get(key);
+		if (project)
+			this.projects.delete(key);   // Re-inserted below to mark it as most recently used.
+		else {
+			const host = new CustCompilerHost();
+			const langServiceHost = new CustLangServiceHost(host, compilerOptions);
+			project = {
+				host,
+				langServiceHost,
+				languageService: ts.createLanguageService(langServiceHost, this.documentRegistry),
+				compilerOptions
+			};
+		}
+		this.projects.set(key, project);
+		while (this.projects.size > this.maxProjects) {
+			const [oldestKey, oldest] = this.projects.entries().next().value as [string, Project];
+			this.projects.delete(oldestKey);
+			oldest.languageService.dispose();
+		}
+		return project;
+	}
+
+	/**
+	 * Dispose of all cached projects.
+	 */
+	public clear(): void {
+		this.projects.forEach(p => p.languageService.dispose());
+		this.projects.clear();
+	}
+}
@@ -0,0 +1,88 @@
+import ts from 'typescript';
+
+/**
+ * Prettier's quoteProps option.
+ */
+export type QuoteProps = 'as-needed' | 'consistent' | 'preserve';
+
+/**
+ * Transformer which adds (or removes) the quotes around the property names of object literals, interfaces and type literals, according to prettier's quoteProps option.
+ *  'as-needed' removes the quotes from every name which is a valid identifier.
+ *  'consistent' does the same, unless at least one name in the object (interface, etc.) requires quotes, in which case every name is quoted.
+ *  Numeric and computed names are never changed.
+ * NOTE:
+ *  This must run before @see quoteTransformer (which only visits the StringLiterals that came from the source file), so that it is the original tree we are examining here.
+ *
+ * @param singleQuote   Whether names which need to be quoted, get single (or double) quotes.
+ */
+export function quotePropsTransformer(quoteProps: QuoteProps, singleQuote: boolean, sourceFile: ts.SourceFile): ts.TransformerFactory<ts.Node> {
+	const needsQuotes = new Map<ts.Node, boolean>();
+
+	/**
+	 * True if the name of at least one member of the object (interface, etc.) can not be written without quotes.
+	 */
+	function someNeedQuotes(container: ts.Node, members: ts.NodeArray<ts.Node>): boolean {
+		let result = needsQuotes.get(container);
+		if (result === undefined) {
+			result = members.some(m => {
+				const name = (m as ts.NamedDeclaration).name;
+				return !!name && ts.isStringLiteral(name) && !isIdentifierName(name.text, sourceFile.languageVersion);
+			});
+			needsQuotes.set(container, result);
+		}
+		return result;
+	}
+
+	return context => {
+		const {factory} = context;
+
+		function visit(node: ts.Node): ts.Node {
+			const members = quotablePropertyName(node);
+			if (!members)
+				return ts.visitEachChild(node, visit, context);
+			const container = node.parent.parent;
+			const quote = quoteProps === 'consistent' && someNeedQuotes(container, members);
+			let newNode: ts.Node | undefined;
+			if (quote && ts.isIdentifier(node))
+				newNode = ts.setEmitFlags(factory.createStringLiteral(ts.idText(node), singleQuote), ts.EmitFlags.NoAsciiEscaping);
+			else if (!quote && ts.isStringLiteral(node) && isIdentifierName(node.text, sourceFile.languageVersion))
+				newNode = factory.createIdentifier(node.text);
+			if (!newNode)
+				return node;
+			return ts.setOriginalNode(ts.setTextRange(newNode, node), node);
+		}
+
+		return quoteProps === 'preserve' ? node => node : visit;
+	};
+}
+
+/**
+ * If the node is the (identifier or string) name of a property or method of an object literal, interface or type literal, return all the members of that object (interface, etc.).
+ */
+function quotablePropertyName(node: ts.Node): ts.NodeArray<ts.Node> | undefined {
+	if (!(ts.isIdentifier(node) || ts.isStringLiteral(node)) || !node.parent)
+		return undefined;
+	const member = node.parent;
+	if (!(ts.isPropertyAssignment(member) || ts.isMethodDeclaration(member) || ts.isGetAccessorDeclaration(member) || ts.isSetAccessorDeclaration(member) || ts.isPropertySignature(member) || ts.isMethodSignature(member)) || member.name !== node)
+		return undefined;
+	const container = member.parent;
+	if (ts.isObjectLiteralExpression(container))
+		return container.properties;
+	if (ts.isInterfaceDeclaration(container) || ts.isTypeLiteralNode(container))
+		return container.members;
+	return undefined;
+}
+
+/**
+ * True if the text can be written as a property name without quotes, given the script target (which determines the valid identifier characters, and in ES3, that reserved words are not valid property names).
+ */
+function isIdentifierName(text: string, languageVersion: ts.ScriptTarget): boolean {
+	const codePoints = Array.from(text).map(c => c.codePointAt(0)!);
+	if (codePoints.length === 0 || !ts.isIdentifierStart(codePoints[0], languageVersion) || !codePoints.slice(1).every(c => ts.isIdentifierPart(c, languageVersion)))
+		return false;
+	if (languageVersion === ts.ScriptTarget.ES3) {
+		const token = ts.createScanner(languageVersion, true, ts.LanguageVariant.Standard, text).scan();
+		return token < ts.SyntaxKind.FirstReservedWord || token > ts.SyntaxKind.LastReservedWord;
+	}
+	return true;
+}
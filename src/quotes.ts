@@ -0,0 +1,99 @@
+import ts from 'typescript';
+
+/**
+ * Transformer which applies prettier's singleQuote (and jsxSingleQuote) options to string literals.
+ * Like prettier, the preferred quote is used unless the string contains more of the preferred quote than of the other one (in which case the other quote needs fewer escapes).
+ * This covers every StringLiteral in the tree, including import/export module specifiers, `import()` types, literal types, and JSX attribute values.
+ * NOTE:
+ *  ts.Printer re-uses the source text of a literal whenever it can (which keeps whatever quote was already there).
+ *  So literals whose quote should change are replaced with new (detached) StringLiterals, which ts.Printer prints from their value.
+ *  It does so by re-escaping that value, and if the result is not what prettier would have written (e.g. the source contains a '\u00e9' escape), the literal is left alone.
+ *
+ * @param unescapeUnnecessary   Also remove backslashes which have no effect (e.g. '\d' is the same as 'd').
+ */
+export function quoteTransformer(singleQuote: boolean, jsxSingleQuote: boolean, unescapeUnnecessary: boolean, sourceFile: ts.SourceFile): ts.TransformerFactory<ts.Node> {
+	const printer = ts.createPrinter();
+	return context => {
+		const {factory} = context;
+
+		function requote(node: ts.StringLiteral): ts.Node {
+			const raw = node.getText(sourceFile);
+			const content = raw.slice(1, -1);
+			let expected: string;
+			if (ts.isJsxAttribute(node.parent)) {
+				// JSX attribute strings have no escapes, so we can only pick a quote the value does not contain.
+				const quote = preferredQuote(content.replace(/&apos;/g, '\'').replace(/&quot;/g, '"'), jsxSingleQuote ? '\'' : '"');
+				if (content.includes(quote) || /[\u0000-\u001f\u2028\u2029\u0085]/.test(content))
+					return node;
+				expected = quote + content + quote;
+			}
+			else {
+				// Prettier leaves a directive (e.g. 'use strict') alone if it contains a quote (changing the quote of a directive would change its meaning).
+				if (isDirective(node) && /['"]/.test(content))
+					return node;
+				expected = makeString(content, preferredQuote(content, singleQuote ? '\'' : '"'), unescapeUnnecessary);
+			}
+			if (expected === raw)
+				return node;
+			const newNode = ts.setEmitFlags(factory.createStringLiteral(node.text, expected.startsWith('\'')), ts.EmitFlags.NoAsciiEscaping);
+			// Checked before positioning the new literal (so that no comments are printed along with it).
+			if (printer.printNode(ts.EmitHint.Unspecified, newNode, sourceFile) !== expected)
+				return node;
+			return ts.setOriginalNode(ts.setTextRange(newNode, node), node);
+		}
+
+		function visit(node: ts.Node): ts.Node {
+			if (ts.isStringLiteral(node) && node.parent)
+				return requote(node);
+			return ts.visitEachChild(node, visit, context);
+		}
+
+		return visit;
+	};
+}
+
+/**
+ * Prettier's rule for choosing a quote:  The preferred one, unless the content contains more of the preferred quote than of the alternate one.
+ */
+function preferredQuote(content: string, preferred: '\'' | '"'): '\'' | '"' {
+	const alternate = preferred === '"' ? '\'' : '"';
+	const count = (quote: string) => content.split(quote).length - 1;
+	return count(preferred) > count(alternate) ? alternate : preferred;
+}
+
+/**
+ * Enclose the (raw) content of a string literal in the specified quote, escaping that quote, and un-escaping the other one (just as prettier does).
+ * All other escapes are kept exactly as written (unless they are unnecessary and we were asked to remove those).
+ */
+function makeString(content: string, quote: '\'' | '"', unescapeUnnecessary: boolean): string {
+	const otherQuote = quote === '"' ? '\'' : '"';
+	return quote + content.replace(/\\(.)|(["'])/gs, (match, escaped: string | undefined, unescaped: string | undefined) => {
+		if (escaped === otherQuote)
+			return escaped;
+		if (unescaped === quote)
+			return '\\' + unescaped;
+		if (unescaped)
+			return unescaped;
+		if (unescapeUnnecessary && /^[^\n\r"'0-7\\bfnrt-vx\u2028\u2029]$/.test(escaped!))
+			return escaped!;
+		return match;
+	}) + quote;
+}
+
+/**
+ * True if the literal is a directive in the prologue of a source file, function body, or module block (e.g. 'use strict').
+ */
+function isDirective(node: ts.StringLiteral): boolean {
+	const statement = node.parent;
+	if (!ts.isExpressionStatement(statement) || !(ts.isSourceFile(statement.parent) || ts.isBlock(statement.parent) || ts.isModuleBlock(statement.parent)))
+		return false;
+	if (ts.isBlock(statement.parent) && !ts.isFunctionLike(statement.parent.parent))
+		return false;
+	for (const s of statement.parent.statements) {
+		if (s === statement)
+			return true;
+		if (!ts.isExpressionStatement(s) || !ts.isStringLiteral(s.expression))
+			return false;
+	}
+	return false;
+}
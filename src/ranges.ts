@@ -0,0 +1,63 @@
+import ts from 'typescript';
+
+/**
+ * Find the smallest set of (sibling) statements which overlap the specified range.
+ * We start with the statements of the source file, and as long as only a single statement overlaps the range,
+ * we look inside it for a nested list of statements (a block, a module, a case clause, the members of a class, etc.) which contains the range.
+ *
+ * @returns Groups of contiguous sibling statements, in source order (one group per range, with overlapping groups merged).
+ */
+export function findEnclosingStatements(sourceFile: ts.SourceFile, ranges: ReadonlyArray<ts.TextRange>): ts.Node[][] {
+	const groups = ranges.map(r => findStatementsInRange(sourceFile, r)).filter(g => g.length > 0);
+	groups.sort((a, b) => a[0].pos - b[0].pos);
+	return groups.reduce((merged, group) => {
+		const prev = merged[merged.length - 1];
+		const groupEnd = group[group.length - 1].end;
+		if (prev && prev[prev.length - 1].end >= group[0].pos) {
+			// Overlapping groups are either the same siblings (so union them), or one is nested inside the other (so keep the outer one).
+			if (prev[0].parent === group[0].parent)
+				group.forEach(n => prev.includes(n) || prev.push(n));
+			else if (groupEnd > prev[prev.length - 1].end)
+				merged[merged.length - 1] = group;
+		}
+		else
+			merged.push(group);
+		return merged;
+	}, [] as ts.Node[][]);
+}
+
+function findStatementsInRange(sourceFile: ts.SourceFile, range: ts.TextRange): ts.Node[] {
+	let list: ReadonlyArray<ts.Node> | undefined = sourceFile.statements;
+	let result: ts.Node[] = [];
+	while (list) {
+		const overlapping: ts.Node[] = list.filter(n => n.getStart(sourceFile) < Math.max(range.end, range.pos + 1) && n.end > range.pos);
+		if (overlapping.length === 0)
+			break;
+		result = overlapping;
+		if (overlapping.length > 1)
+			break;
+		list = statementList(overlapping[0]) ?? findNestedList(overlapping[0], range, sourceFile);
+	}
+	return result;
+}
+
+/**
+ * Search the descendants of a node for the outermost list of statements (or class members) which contains the range.
+ */
+function findNestedList(node: ts.Node, range: ts.TextRange, sourceFile: ts.SourceFile): ReadonlyArray<ts.Node> | undefined {
+	let found: ReadonlyArray<ts.Node> | undefined;
+	ts.forEachChild(node, child => {
+		if (found || child.getStart(sourceFile) > range.pos || child.end < range.end)
+			return;
+		found = statementList(child) ?? findNestedList(child, range, sourceFile);
+	});
+	return found;
+}
+
+function statementList(node: ts.Node): ReadonlyArray<ts.Node> | undefined {
+	if (ts.isBlock(node) || ts.isModuleBlock(node) || ts.isCaseClause(node) || ts.isDefaultClause(node))
+		return node.statements;
+	if (ts.isClassLike(node))
+		return node.members;
+	return undefined;
+}
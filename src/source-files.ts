@@ -0,0 +1,24 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import ts from 'typescript';
+
+/**
+ * Source file extensions which are looked for when a directory is given.
+ */
+const SourceExtensions = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+
+/**
+ * The (absolute) source files named, or found within the directories named (recursively, skipping node_modules and declaration files).
+ *
+ * @throws Error if a file or directory does not exist.
+ */
+export function findSourceFiles(fileOrDirNames: string[]): string[] {
+	const result = new Set<string>();
+	fileOrDirNames.map(f => path.resolve(f)).forEach(f => {
+		if (fs.statSync(f).isDirectory())
+			ts.sys.readDirectory(f, SourceExtensions, ['**/node_modules/**'], ['**/*']).filter(name => !/\.d\.[cm]?ts$/.test(name)).sort().forEach(name => result.add(path.resolve(name)));
+		else
+			result.add(f);
+	});
+	return Array.from(result);
+}
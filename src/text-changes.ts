@@ -0,0 +1,53 @@
+import ts from 'typescript';
+
+/**
+ * Map an offset within some text, to the corresponding offset in the text which results from applying the (non-overlapping) changes.
+ * Offsets which fall inside a changed span are mapped by content (@see mapOffsetByContent), since the change may have rewritten (rather than just adjusted) that span.
+ */
+export function mapOffset(offset: number, oldText: string, changes: ReadonlyArray<ts.TextChange>): number {
+	let delta = 0;
+	for (const change of changes.slice(0).sort((a, b) => a.span.start - b.span.start)) {
+		const {start, length} = change.span;
+		if (offset < start)
+			break;
+		if (offset < start + length)
+			return start + delta + mapOffsetByContent(oldText.substring(start, start + length), change.newText, offset - start);
+		delta += change.newText.length - length;
+	}
+	return offset + delta;
+}
+
+/**
+ * Map an offset within some text, to the "same" offset within a rewritten version of that text.
+ * Reformatting mostly adds and removes whitespace, so we find the position in the new text that is preceded by the same number of non-whitespace characters.
+ */
+export function mapOffsetByContent(oldText: string, newText: string, offset: number): number {
+	let count = 0;
+	for (let i = 0; i < offset && i < oldText.length; i++)
+		if (!/\s/.test(oldText[i]))
+			count++;
+	let pos = 0;
+	while (count > 0 && pos < newText.length) {
+		if (!/\s/.test(newText[pos]))
+			count--;
+		pos++;
+	}
+	// If the offset was sitting on whitespace, keep it on the same side of that whitespace.
+	if (offset < oldText.length && /\s/.test(oldText[offset]))
+		return pos;
+	while (pos < newText.length && /\s/.test(newText[pos]))
+		pos++;
+	return pos;
+}
+
+/**
+ * Compute where each of the (non-overlapping) changes ended up, in the text which results from applying them.
+ */
+export function changedSpans(changes: ReadonlyArray<ts.TextChange>): ts.TextRange[] {
+	let delta = 0;
+	return changes.slice(0).sort((a, b) => a.span.start - b.span.start).map(change => {
+		const pos = change.span.start + delta;
+		delta += change.newText.length - change.span.length;
+		return {pos, end: pos + change.newText.length};
+	});
+}
@@ -0,0 +1,130 @@
+import ts from 'typescript';
+
+/**
+ * Prettier's trailingComma option.
+ */
+export type TrailingComma = 'none' | 'es5' | 'all';
+
+/**
+ * Transformer which adds (or removes) the trailing comma of object and array literals, according to prettier's trailingComma option.
+ * Multi-line literals get a trailing comma (unless trailingComma is 'none'), and single line ones never do.
+ * NOTE:
+ *  Object and array literals are the only multi-line lists for which ts.Printer is able to print a trailing comma.
+ *  Lists that only become multi-line after printing (or which ts.Printer always prints without one, such as enum members), get theirs from @see trailingCommaEdits
+ *  So does a literal whose last element is followed by a line comment, since ts.Printer would print the comma after the comment (on a line of its own).
+ */
+export function trailingCommaTransformer(trailingComma: TrailingComma, sourceFile: ts.SourceFile): ts.TransformerFactory<ts.Node> {
+	return context => {
+		const {factory} = context;
+
+		function withTrailingComma<T extends ts.Node>(list: ts.NodeArray<T>, hasTrailingComma: boolean): ts.NodeArray<T> {
+			// Removing the trailing comma after a hole (e.g. [a, ,]) would change the length of the array.
+			if (list.length > 0 && ts.isOmittedExpression(list[list.length - 1]))
+				return list;
+			if (hasTrailingComma && hasTrailingLineComment(list[list.length - 1]))
+				hasTrailingComma = false;
+			return factory.createNodeArray(list, hasTrailingComma);
+		}
+
+		function visit(node: ts.Node): ts.Node {
+			node = ts.visitEachChild(node, visit, context);
+			if (ts.isObjectLiteralExpression(node))
+				return factory.updateObjectLiteralExpression(node, withTrailingComma(node.properties, trailingComma !== 'none' && isMultiLine(node) && node.properties.length > 0));
+			if (ts.isArrayLiteralExpression(node))
+				return factory.updateArrayLiteralExpression(node, withTrailingComma(node.elements, trailingComma !== 'none' && isMultiLine(node) && node.elements.length > 0));
+			// ts.Printer always prints these on a single line.
+			if (ts.isNamedImports(node))
+				return factory.updateNamedImports(node, withTrailingComma(node.elements, false));
+			if (ts.isNamedExports(node))
+				return factory.updateNamedExports(node, withTrailingComma(node.elements, false));
+			if (ts.isObjectBindingPattern(node))
+				return factory.updateObjectBindingPattern(node, withTrailingComma(node.elements, false));
+			if (ts.isArrayBindingPattern(node))
+				return factory.updateArrayBindingPattern(node, withTrailingComma(node.elements, false));
+			return node;
+		}
+
+		function hasTrailingLineComment(node: ts.Node): boolean {
+			return node.pos >= 0 && !!ts.getTrailingCommentRanges(sourceFile.text, node.end)?.some(c => c.kind === ts.SyntaxKind.SingleLineCommentTrivia);
+		}
+
+		return visit;
+	};
+}
+
+/**
+ * True if ts.Printer will print the literal on multiple lines.
+ * NOTE:
+ *  The 'multiLine' property (set by the parser when there is a newline after the opening bracket) is not part of the published typings.
+ */
+function isMultiLine(node: ts.ObjectLiteralExpression | ts.ArrayLiteralExpression): boolean {
+	return (node as any).multiLine === true;
+}
+
+/**
+ * Insert the trailing comma (required by prettier's trailingComma option) into every multi-line list that is missing one.
+ * This follows prettier's rules:
+ *  'es5' covers object and array literals (and destructuring patterns), enum members, and named imports/exports.
+ *  'all' also covers parameters, arguments, type parameters, and tuple types.
+ *  There is never a trailing comma after a rest element (it would be a syntax error).
+ *
+ * @param spans If specified, only lists which end within these spans are considered.
+ */
+export function trailingCommaEdits(sourceFile: ts.SourceFile, trailingComma: TrailingComma, spans?: ts.TextRange[]): ts.TextChange[] {
+	const result: ts.TextChange[] = [];
+	if (trailingComma === 'none')
+		return result;
+	const text = sourceFile.text;
+
+	function visit(node: ts.Node) {
+		for (const list of trailingCommaLists(node, trailingComma)) {
+			if (list.length > 0 && !list.hasTrailingComma) {
+				const last = list[list.length - 1];
+				const pos = last.end;
+				if ((!spans || spans.some(s => s.pos <= pos && pos < s.end)) && isFollowedByNewline(text, pos) && !isRestElement(last))
+					result.push({span: {start: pos, length: 0}, newText: ','});
+			}
+		}
+		ts.forEachChild(node, visit);
+	}
+
+	visit(sourceFile);
+	return result;
+}
+
+/**
+ * The lists (if any) owned by the node that may have a trailing comma (given the trailingComma option).
+ */
+function trailingCommaLists(node: ts.Node, trailingComma: TrailingComma): ts.NodeArray<ts.Node>[] {
+	if (ts.isObjectLiteralExpression(node))
+		return [node.properties];
+	if (ts.isArrayLiteralExpression(node) || ts.isObjectBindingPattern(node) || ts.isArrayBindingPattern(node) || ts.isNamedImports(node) || ts.isNamedExports(node))
+		return [node.elements];
+	if (ts.isEnumDeclaration(node))
+		return [node.members];
+	if (trailingComma !== 'all')
+		return [];
+	if (ts.isCallExpression(node) && node.expression.kind !== ts.SyntaxKind.ImportKeyword)
+		return [node.arguments];
+	if (ts.isNewExpression(node) && node.arguments)
+		return [node.arguments];
+	if (ts.isTupleTypeNode(node))
+		return [node.elements];
+	if (ts.isFunctionLike(node))
+		return node.typeParameters ? [node.typeParameters, node.parameters] : [node.parameters];
+	if ((ts.isClassLike(node) || ts.isInterfaceDeclaration(node) || ts.isTypeAliasDeclaration(node)) && node.typeParameters)
+		return [node.typeParameters];
+	return [];
+}
+
+/**
+ * True if only whitespace (or comments) separates the position from the end of its line (in other words, the list's closing bracket is on a later line).
+ */
+function isFollowedByNewline(text: string, pos: number): boolean {
+	const eol = text.indexOf('\n', pos);
+	return eol >= 0 && /^\s*(\/\/.*|\/\*.*?\*\/\s*)*$/.test(text.substring(pos, eol));
+}
+
+function isRestElement(node: ts.Node): boolean {
+	return (ts.isParameter(node) || ts.isBindingElement(node)) && !!node.dotDotDotToken;
+}
@@ -0,0 +1,40 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {TsFormatResolver} from './ts-format-resolver';
+
+describe('TsFormatResolver', () => {
+	it('should merge the ts-format.json files found searching upwards from the file', () => {
+		const resolver = new TsFormatResolver();
+		const settings = resolver.resolve('./fixtures/input/nested/tsx-sample.tsx');
+		expect(settings?.convertTabsToSpaces).toBeTrue();    // From the outer ts-format.json
+		expect(settings?.indentSize).toEqual(8);
+		expect(settings?.tabSize).toEqual(2);    // The nearest one wins
+		expect(settings?.insertSpaceAfterOpeningAndBeforeClosingJsxExpressionBraces).toBeTrue();
+		expect(settings?.placeOpenBraceOnNewLineForFunctions).toBeUndefined();
+		expect((settings as any).overrides).toBeUndefined();
+	});
+
+	it('should apply the overrides whose globs match the file', () => {
+		const resolver = new TsFormatResolver();
+		const spec = resolver.resolve('./fixtures/input/nested/spec/deep/foo.spec.ts');
+		expect(spec?.placeOpenBraceOnNewLineForFunctions).toBeTrue();
+		expect(resolver.resolve('./fixtures/input/nested/spec/foo.tsx')?.insertSpaceAfterOpeningAndBeforeClosingJsxExpressionBraces).toBeUndefined();
+	});
+
+	it('should prefer an explicitly specified ts-format.json, and re-read it when it changes', () => {
+		const resolver = new TsFormatResolver();
+		const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tsp-'));
+		const formatPath = path.join(dir, 'custom.json');
+		try {
+			fs.writeFileSync(formatPath, '{tabSize: 3}');
+			expect(resolver.resolve('./fixtures/input/nested/tsx-sample.tsx', formatPath)).toEqual({tabSize: 3});
+			fs.writeFileSync(formatPath, '{tabSize: 5}');
+			fs.utimesSync(formatPath, new Date(), new Date(Date.now() + 10000));
+			expect(resolver.resolve('./fixtures/input/nested/tsx-sample.tsx', formatPath)).toEqual({tabSize: 5});
+		}
+		finally {
+			fs.rmSync(dir, {recursive: true, force: true});
+		}
+	});
+});
@@ -0,0 +1,126 @@
+import * as fs from 'fs';
+import {parse as json5Parse} from 'json5';
+import merge from 'lodash/merge';
+import * as path from 'path';
+import ts from 'typescript';
+import {matchesGlob} from './globs';
+import {validateTsFormat} from './ts-format-schema';
+
+/**
+ * The contents of a ts-format.json file.
+ * Besides any ts.FormatCodeSettings, it may contain:
+ *  $schema     For editors (@see tsFormatJsonSchema).
+ *  root        If true, ts-format.json files in parent directories are not consulted.
+ *  overrides   Settings which only apply to the files matching a glob (relative to the directory of the ts-format.json), much like prettier's own overrides.
+ */
+interface TsFormatFile extends ts.FormatCodeSettings {
+	$schema?: string;
+	root?: boolean;
+	overrides?: {
+		files: string | string[];
+		excludeFiles?: string | string[];
+		options: ts.FormatCodeSettings;
+	}[];
+}
+
+/**
+ * Locates (and parses) the ts-format.json files which apply to a given source file.
+ * Like .editorconfig, we search upwards from the directory of the file being formatted, and nested ts-format.json files merge over those of their parents (until one that is marked as the root).
+ * Parsed files are cached by path, but re-read whenever their modification time changes (e.g. an editor integration which formats many files over a long session).
+ */
+export class TsFormatResolver {
+	constructor() {
+		this.parsedFiles = new Map<string, { mtimeMs: number, content: TsFormatFile }>();
+	}
+
+	/**
+	 * Every ts-format.json we have read (keyed by its path).
+	 */
+	protected parsedFiles: Map<string, { mtimeMs: number, content: TsFormatFile }>;
+
+	/**
+	 * Compute the ts.FormatCodeSettings (from ts-format.json files) for a source file.
+	 *
+	 * @param filePath  The file being formatted (if there is one).
+	 * @param formatPath    An explicitly requested ts-format.json, which (if present) is used instead of searching from the file.
+	 * @returns The merged settings, or undefined if no ts-format.json applies.
+	 */
+	public resolve(filePath: string | undefined, formatPath?: string): ts.FormatCodeSettings | undefined {
+		let formatPaths: string[];
+		if (formatPath)
+			formatPaths = [formatPath];
+		else
+			formatPaths = this.findAll(filePath ? path.dirname(path.resolve(filePath)) : path.resolve('./'));
+		if (formatPaths.length === 0)
+			return undefined;
+		const result: ts.FormatCodeSettings = {};
+		formatPaths.forEach(p => {
+			const {$schema, root, overrides, ...settings} = this.getParsedFile(p);
+			merge(result, settings);
+			if (filePath && overrides) {
+				const relative = path.relative(path.dirname(path.resolve(p)), path.resolve(filePath)).split(path.sep).join('/');
+				overrides.filter(o => matchesGlob(relative, o.files) && !(o.excludeFiles && matchesGlob(relative, o.excludeFiles)))
+					.forEach(o => merge(result, o.options));
+			}
+		});
+		return result;
+	}
+
+	/**
+	 * Read, parse and validate (@see validateTsFormat) the specified ts-format.json (unless we already have, and it has not been modified since).
+	 */
+	public getParsedFile(formatPath: string): TsFormatFile {
+		const mtimeMs = fs.statSync(formatPath).mtimeMs;
+		let parsed = this.parsedFiles.get(formatPath);
+		if (!parsed || parsed.mtimeMs !== mtimeMs) {
+			let content: unknown;
+			try {
+				content = json5Parse(fs.readFileSync(formatPath, 'utf8'));
+			}
+			catch (err) {
+				throw new Error(`Invalid ts-format file ${formatPath}: ${(err as Error).message}`);
+			}
+			parsed = {mtimeMs, content: validateTsFormat(content, formatPath) as TsFormatFile};
+			this.parsedFiles.set(formatPath, parsed);
+		}
+		return parsed.content;
+	}
+
+	/**
+	 * The path of every ts-format.json we have read (and cached).
+	 */
+	public cachedFiles(): string[] {
+		return Array.from(this.parsedFiles.keys());
+	}
+
+	/**
+	 * Forget everything we have cached.
+	 */
+	public clear(): void {
+		this.parsedFiles.clear();
+	}
+
+	/**
+	 * Search upwards from the specified directory for ts-format.json files (stopping at one marked as the root).
+	 * NOTE:
+	 *  The directory search is not cached, so that a ts-format.json created (or deleted) part way through a session is noticed.
+	 *
+	 * @returns The paths of the files found, outermost first.
+	 */
+	protected findAll(dir: string): string[] {
+		const result: string[] = [];
+		for (;;) {
+			const candidate = path.join(dir, 'ts-format.json');
+			if (fs.existsSync(candidate)) {
+				result.unshift(candidate);
+				if (this.getParsedFile(candidate).root)
+					break;
+			}
+			const parent = path.dirname(dir);
+			if (parent === dir)
+				break;
+			dir = parent;
+		}
+		return result;
+	}
+}
@@ -0,0 +1,33 @@
+import * as fs from 'fs';
+import ts from 'typescript';
+import {tsFormatJsonSchema, validateTsFormat} from './ts-format-schema';
+
+describe('validateTsFormat', () => {
+	it('should accept enum names (in any case) as well as values', () => {
+		const settings = validateTsFormat({indentStyle: 'smart', semicolons: 'Remove', overrides: [{files: '*.ts', options: {indentStyle: 1}}]}, 'ts-format.json');
+		expect(settings.indentStyle).toEqual(ts.IndentStyle.Smart);
+		expect(settings.semicolons).toEqual(ts.SemicolonPreference.Remove);
+		expect((settings.overrides as any)[0].options.indentStyle).toEqual(ts.IndentStyle.Block);
+	});
+
+	it('should name the file, the key, what was expected, and the nearest valid key', () => {
+		let error: Error | undefined;
+		try {
+			validateTsFormat({indentsize: 4, tabSize: '2', semicolons: 'never', overrides: [{file: '*.ts', options: {}}]}, '/some/ts-format.json');
+		}
+		catch (err) {
+			error = err as Error;
+		}
+		expect(error?.message).toContain('/some/ts-format.json');
+		expect(error?.message).toContain('"indentsize" is not a valid setting (did you mean "indentSize"?)');
+		expect(error?.message).toContain('"tabSize" must be a number, but found string "2"');
+		expect(error?.message).toContain('"semicolons" must be one of "Ignore", "Insert", "Remove", but found string "never"');
+		expect(error?.message).toContain('"overrides[0].file" is not a valid setting (did you mean "files"?)');
+		expect(error?.message).toContain('"overrides[0].files" must be a glob or an array of globs, but found nothing');
+	});
+
+	it('should match the published JSON Schema', () => {
+		const published = JSON.parse(fs.readFileSync('./ts-format.schema.json', 'utf8'));
+		expect(published).toEqual(tsFormatJsonSchema());
+	});
+});
@@ -0,0 +1,200 @@
+import ts from 'typescript';
+
+/**
+ * The type of each ts.FormatCodeSettings property.
+ * An enum is described by its members, and may be written in a ts-format.json either by (case insensitive) name, or by value.
+ */
+export type SettingType = 'boolean' | 'number' | 'string' | Record<string, string | number>;
+
+/**
+ * Every ts.FormatCodeSettings property (the Required<> ensures the compiler tells us if a new TypeScript release adds one we have not described).
+ */
+export const FormatSettingTypes: Record<keyof Required<ts.FormatCodeSettings>, SettingType> = {
+	baseIndentSize: 'number',
+	indentSize: 'number',
+	tabSize: 'number',
+	newLineCharacter: 'string',
+	convertTabsToSpaces: 'boolean',
+	indentStyle: {None: ts.IndentStyle.None, Block: ts.IndentStyle.Block, Smart: ts.IndentStyle.Smart},
+	trimTrailingWhitespace: 'boolean',
+	insertSpaceAfterCommaDelimiter: 'boolean',
+	insertSpaceAfterSemicolonInForStatements: 'boolean',
+	insertSpaceBeforeAndAfterBinaryOperators: 'boolean',
+	insertSpaceAfterConstructor: 'boolean',
+	insertSpaceAfterKeywordsInControlFlowStatements: 'boolean',
+	insertSpaceAfterFunctionKeywordForAnonymousFunctions: 'boolean',
+	insertSpaceAfterOpeningAndBeforeClosingNonemptyParenthesis: 'boolean',
+	insertSpaceAfterOpeningAndBeforeClosingNonemptyBrackets: 'boolean',
+	insertSpaceAfterOpeningAndBeforeClosingNonemptyBraces: 'boolean',
+	insertSpaceAfterOpeningAndBeforeClosingEmptyBraces: 'boolean',
+	insertSpaceAfterOpeningAndBeforeClosingTemplateStringBraces: 'boolean',
+	insertSpaceAfterOpeningAndBeforeClosingJsxExpressionBraces: 'boolean',
+	insertSpaceAfterTypeAssertion: 'boolean',
+	insertSpaceBeforeFunctionParenthesis: 'boolean',
+	placeOpenBraceOnNewLineForFunctions: 'boolean',
+	placeOpenBraceOnNewLineForControlBlocks: 'boolean',
+	insertSpaceBeforeTypeAnnotation: 'boolean',
+	indentMultiLineObjectLiteralBeginningOnBlankLine: 'boolean',
+	semicolons: {Ignore: ts.SemicolonPreference.Ignore, Insert: ts.SemicolonPreference.Insert, Remove: ts.SemicolonPreference.Remove}
+};
+
+/**
+ * Keys a ts-format.json may contain in addition to the ts.FormatCodeSettings (@see TsFormatFile).
+ */
+const FileKeys = ['$schema', 'root', 'overrides'];
+
+/**
+ * Check the (parsed) contents of a ts-format.json, and convert any enum names into the values ts.LanguageService expects.
+ * All problems are reported together, each naming the file, the offending key, what was expected, and (for an unknown key) the nearest valid one.
+ *
+ * @param fileName  Only used for error messages (e.g. the path of the ts-format.json).
+ * @returns The contents, with enum names replaced by their values.
+ * @throws Error if the contents are not valid.
+ */
+export function validateTsFormat(content: unknown, fileName: string): Record<string, unknown> {
+	const errors: string[] = [];
+	if (!isObject(content))
+		throw new Error(`${fileName}: expected an object, but found ${describe(content)}`);
+	const result = validateSettings(content, '', FileKeys, errors);
+	if ('root' in content && typeof content.root !== 'boolean')
+		errors.push(`"root" must be a boolean, but found ${describe(content.root)}`);
+	if ('overrides' in content) {
+		if (!Array.isArray(content.overrides))
+			errors.push(`"overrides" must be an array, but found ${describe(content.overrides)}`);
+		else {
+			result.overrides = content.overrides.map((override: unknown, i: number) => {
+				const where = `overrides[${i}]`;
+				if (!isObject(override)) {
+					errors.push(`"${where}" must be an object, but found ${describe(override)}`);
+					return override;
+				}
+				checkKeys(override, where + '.', ['files', 'excludeFiles', 'options'], errors);
+				['files', 'excludeFiles'].forEach(key => {
+					const globs = override[key];
+					if ((key === 'files' || globs !== undefined) && !(typeof globs === 'string' || (Array.isArray(globs) && globs.every(g => typeof g === 'string'))))
+						errors.push(`"${where}.${key}" must be a glob or an array of globs, but found ${describe(globs)}`);
+				});
+				if (!isObject(override.options)) {
+					errors.push(`"${where}.options" must be an object, but found ${describe(override.options)}`);
+					return override;
+				}
+				return {...override, options: validateSettings(override.options, where + '.options.', [], errors)};
+			});
+		}
+	}
+	if (errors.length > 0)
+		throw new Error(`Invalid ${fileName}:\n\t${errors.join('\n\t')}`);
+	return result;
+}
+
+/**
+ * A JSON Schema (for editors to validate and autocomplete a ts-format.json).
+ */
+export function tsFormatJsonSchema(): object {
+	const settings: Record<string, object> = {};
+	Object.keys(FormatSettingTypes).forEach(key => {
+		const type = FormatSettingTypes[key as keyof typeof FormatSettingTypes];
+		if (typeof type === 'string')
+			settings[key] = {type};
+		else
+			settings[key] = {enum: Array.from(new Set(Object.keys(type).flatMap(name => [type[name], name, name.toLowerCase()])))};
+	});
+	const globs = {oneOf: [{type: 'string'}, {type: 'array', items: {type: 'string'}}]};
+	return {
+		$schema: 'http://json-schema.org/draft-07/schema#',
+		title: 'ts-pretty ts-format.json',
+		description: 'ts.FormatCodeSettings overrides for the ts-pretty prettier plugin.',
+		type: 'object',
+		properties: {
+			$schema: {type: 'string'},
+			root: {type: 'boolean', description: 'Do not look for ts-format.json files in parent directories.'},
+			overrides: {
+				type: 'array',
+				description: 'Settings which only apply to the files matching a glob (relative to this file).',
+				items: {
+					type: 'object',
+					properties: {
+						files: globs,
+						excludeFiles: globs,
+						options: {type: 'object', properties: settings, additionalProperties: false}
+					},
+					required: ['files', 'options'],
+					additionalProperties: false
+				}
+			},
+			...settings
+		},
+		additionalProperties: false
+	};
+}
+
+/**
+ * Check the ts.FormatCodeSettings properties of an object (and that it has no others, except for the allowed extra keys).
+ */
+function validateSettings(settings: Record<string, unknown>, prefix: string, extraKeys: string[], errors: string[]): Record<string, unknown> {
+	const result: Record<string, unknown> = {};
+	checkKeys(settings, prefix, Object.keys(FormatSettingTypes).concat(extraKeys), errors);
+	Object.keys(settings).forEach(key => {
+		const value = settings[key];
+		result[key] = value;
+		const type = FormatSettingTypes[key as keyof typeof FormatSettingTypes];
+		if (!type)
+			return;
+		if (typeof type === 'string') {
+			if (typeof value !== type)
+				errors.push(`"${prefix}${key}" must be a ${type}, but found ${describe(value)}`);
+			return;
+		}
+		const names = Object.keys(type);
+		const name = typeof value === 'string' ? names.find(n => n.toLowerCase() === value.toLowerCase()) : undefined;
+		if (name)
+			result[key] = type[name];
+		else if (!names.some(n => type[n] === value))
+			errors.push(`"${prefix}${key}" must be one of ${names.map(n => JSON.stringify(n)).join(', ')}, but found ${describe(value)}`);
+	});
+	return result;
+}
+
+function checkKeys(obj: Record<string, unknown>, prefix: string, validKeys: string[], errors: string[]) {
+	Object.keys(obj).filter(key => !validKeys.includes(key)).forEach(key => {
+		const suggestion = nearestKey(key, validKeys);
+		errors.push(`"${prefix}${key}" is not a valid setting` + (suggestion ? ` (did you mean "${suggestion}"?)` : ''));
+	});
+}
+
+/**
+ * The valid key closest (by edit distance, ignoring case) to a mistyped one, if any is close enough to plausibly be what was meant.
+ */
+function nearestKey(key: string, validKeys: string[]): string | undefined {
+	let best: string | undefined;
+	let bestDistance = Math.max(2, Math.floor(key.length * 0.34)) + 1;
+	validKeys.forEach(candidate => {
+		const distance = editDistance(key.toLowerCase(), candidate.toLowerCase());
+		if (distance < bestDistance) {
+			best = candidate;
+			bestDistance = distance;
+		}
+	});
+	return best;
+}
+
+function editDistance(a: string, b: string): number {
+	let previous = Array.from({length: b.length + 1}, (_, j) => j);
+	for (let i = 1; i <= a.length; i++) {
+		const current = [i];
+		for (let j = 1; j <= b.length; j++)
+			current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+		previous = current;
+	}
+	return previous[b.length];
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+	if (value === undefined)
+		return 'nothing';
+	return `${Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value} ${JSON.stringify(value)}`;
+}
@@ -0,0 +1,35 @@
+import * as os from 'os';
+import * as path from 'path';
+import ts from 'typescript';
+import {TsConfigResolver} from './tsconfig-resolver';
+
+describe('TsConfigResolver', () => {
+	it('should search upwards from the file and follow extends', () => {
+		const resolver = new TsConfigResolver();
+		const tsConfigPath = resolver.resolve('./fixtures/input/nested/tsx-sample.tsx');
+		expect(tsConfigPath).toEqual(path.resolve('./fixtures/input/nested/tsconfig.json'));
+		const options = resolver.getParsedConfig(tsConfigPath!).options;
+		expect(options.target).toEqual(ts.ScriptTarget.ES2020);
+		expect(options.jsx).toEqual(ts.JsxEmit.Preserve);
+		expect(options.esModuleInterop).toBeTrue();    // From the extended tsconfig.json
+	});
+
+	it('should pick the project reference which includes the file', () => {
+		const resolver = new TsConfigResolver();
+		expect(resolver.resolve('./src/index.ts')).toEqual(path.resolve('./tsconfig.app.json'));
+		expect(resolver.resolve('./src/index.spec.ts')).toEqual(path.resolve('./tsconfig.spec.json'));
+	});
+
+	it('should only use the fallback when searching from the file finds nothing', () => {
+		const resolver = new TsConfigResolver();
+		expect(resolver.resolve('./fixtures/input/nested/tsx-sample.tsx', undefined, './tsconfig.app.json')).toEqual(path.resolve('./fixtures/input/nested/tsconfig.json'));
+		const outside = path.join(os.tmpdir(), 'tsp-outside.ts');
+		expect(resolver.resolve(outside, undefined, './tsconfig.app.json')).toEqual('./tsconfig.app.json');
+		expect(resolver.resolve(outside)).toBeUndefined();
+	});
+
+	it('should prefer an explicitly specified tsconfig.json', () => {
+		const resolver = new TsConfigResolver();
+		expect(resolver.resolve('./fixtures/input/nested/tsx-sample.tsx', './tsconfig.json')).toEqual('./tsconfig.json');
+	});
+});
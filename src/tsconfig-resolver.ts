@@ -0,0 +1,132 @@
+import * as path from 'path';
+import ts from 'typescript';
+
+/**
+ * Locates (and parses) the tsconfig.json that governs a given source file.
+ * In a monorepo, every package may have its own tsconfig.json (with its own target, jsx, paths, etc.),
+ * so we search upwards from the directory of the file being formatted (rather than from the process cwd).
+ * If the tsconfig.json we find has project references (e.g. a "solution" style tsconfig.json), we prefer the referenced project whose include/files actually contains the file.
+ * Both the directory searches and the parsed tsconfig.json files are cached.
+ */
+export class TsConfigResolver {
+	constructor() {
+		this.dirConfigs = new Map<string, string | null>();
+		this.parsedConfigs = new Map<string, ts.ParsedCommandLine>();
+		this.configFileNames = new Map<string, Set<string>>();
+	}
+
+	/**
+	 * Nearest tsconfig.json (or null if there isn't one) for every directory we have searched.
+	 */
+	protected dirConfigs: Map<string, string | null>;
+	/**
+	 * Every tsconfig.json we have read (keyed by its path).
+	 */
+	protected parsedConfigs: Map<string, ts.ParsedCommandLine>;
+	/**
+	 * Canonical names of the files included by each tsconfig.json we have read (keyed by its path).
+	 */
+	protected configFileNames: Map<string, Set<string>>;
+
+	/**
+	 * Find the tsconfig.json for a source file.
+	 *
+	 * @param filePath  The file being formatted (if there is one).
+	 * @param configPath    An explicitly requested tsconfig.json, which (if present) takes precedence over searching from the file.
+	 * @param fallbackPath  A tsconfig.json to use only if searching from the file finds nothing (e.g. process.env.TS_NODE_PROJECT).
+	 * @returns The path of the tsconfig.json, or undefined if none could be found.
+	 */
+	public resolve(filePath: string | undefined, configPath?: string, fallbackPath?: string): string | undefined {
+		let tsConfigPath: string | undefined;
+		if (configPath)
+			tsConfigPath = ts.findConfigFile(path.dirname(configPath), ts.sys.fileExists, path.basename(configPath));
+		else {
+			tsConfigPath = this.findNearest(filePath ? path.dirname(path.resolve(filePath)) : path.resolve('./')) ?? undefined;
+			if (!tsConfigPath && fallbackPath)
+				tsConfigPath = ts.findConfigFile(path.dirname(fallbackPath), ts.sys.fileExists, path.basename(fallbackPath));
+		}
+		if (tsConfigPath && filePath)
+			tsConfigPath = this.findReferencedConfig(tsConfigPath, this.canonicalName(filePath), new Set<string>()) ?? tsConfigPath;
+		return tsConfigPath;
+	}
+
+	/**
+	 * Read and parse (including anything it 'extends') the specified tsconfig.json.
+	 */
+	public getParsedConfig(tsConfigPath: string): ts.ParsedCommandLine {
+		let parsed = this.parsedConfigs.get(tsConfigPath);
+		if (!parsed) {
+			const configFile = ts.readConfigFile(tsConfigPath, ts.sys.readFile);
+			parsed = ts.parseJsonConfigFileContent(
+				configFile.config,
+				ts.sys,
+				path.dirname(tsConfigPath),
+				undefined,
+				tsConfigPath
+			);
+			this.parsedConfigs.set(tsConfigPath, parsed);
+		}
+		return parsed;
+	}
+
+	/**
+	 * The path of every tsconfig.json we have read (and cached).
+	 */
+	public cachedFiles(): string[] {
+		return Array.from(this.parsedConfigs.keys());
+	}
+
+	/**
+	 * Forget everything we have cached.
+	 */
+	public clear(): void {
+		this.dirConfigs.clear();
+		this.parsedConfigs.clear();
+		this.configFileNames.clear();
+	}
+
+	/**
+	 * Search upwards from the specified directory for a tsconfig.json file.
+	 */
+	protected findNearest(dir: string): string | null {
+		let result = this.dirConfigs.get(dir);
+		if (result === undefined) {
+			const candidate = path.join(dir, 'tsconfig.json');
+			if (ts.sys.fileExists(candidate))
+				result = candidate;
+			else {
+				const parent = path.dirname(dir);
+				result = parent === dir ? null : this.findNearest(parent);
+			}
+			this.dirConfigs.set(dir, result);
+		}
+		return result;
+	}
+
+	/**
+	 * Depth first search of the project references of a tsconfig.json for the one which includes the specified file.
+	 * Falls back to the tsconfig.json itself (if it includes the file).
+	 */
+	protected findReferencedConfig(tsConfigPath: string, fileName: string, visited: Set<string>): string | undefined {
+		if (visited.has(tsConfigPath) || (!ts.sys.fileExists(tsConfigPath)))
+			return undefined;
+		visited.add(tsConfigPath);
+		const parsed = this.getParsedConfig(tsConfigPath);
+		for (const ref of parsed.projectReferences ?? []) {
+			const found = this.findReferencedConfig(ts.resolveProjectReferencePath(ref), fileName, visited);
+			if (found)
+				return found;
+		}
+		let fileNames = this.configFileNames.get(tsConfigPath);
+		if (!fileNames) {
+			fileNames = new Set<string>(parsed.fileNames.map(f => this.canonicalName(f)));
+			this.configFileNames.set(tsConfigPath, fileNames);
+		}
+		return fileNames.has(fileName) ? tsConfigPath : undefined;
+	}
+
+	protected canonicalName(fileName: string): string {
+		fileName = path.resolve(fileName);
+		return ts.sys.useCaseSensitiveFileNames ? fileName : fileName.toLowerCase();
+	}
+}
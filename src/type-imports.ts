@@ -0,0 +1,250 @@
+import ts from 'typescript';
+
+/**
+ * How imports (and exports) of names which are only used as types are marked:
+ *  'top-level' Move them to their own 'import type' (or 'export type') declaration.
+ *  'inline'    Mark each of them with an inline 'type' modifier (e.g. import {type Foo, bar} from './foo').
+ * Either way, a declaration whose names are *all* types becomes an 'import type' (or 'export type') declaration.
+ */
+export type TypeImportStyle = 'top-level' | 'inline';
+
+/**
+ * The edits which convert imports and exports of names that are only used as types, into type-only imports and exports (as required by verbatimModuleSyntax / isolatedModules).
+ * An imported name is only used as a type if it resolves to something with no value meaning (e.g. an interface), or if every reference to it is in a type position (e.g. a type annotation).
+ * An exported (or re-exported) name is only a type if it resolves to something with no value meaning.
+ * If the checker can not resolve any of the imported or exported names (e.g. a module is missing), or any other name the file references, there are no edits at all (better to leave the file alone than guess).
+ * NOTE:
+ *  The edits only deal with what names go where, the layout of the new declarations is left to the whitespace formatter.
+ *  A declaration containing comments is never rebuilt (which would lose them), so the 'top-level' style falls back to 'inline' modifiers for it.
+ *  Declarations with import assertions are left alone.
+ *
+ * @param sourceFile    Must belong to the program that the checker came from.
+ * @param emitDecoratorMetadata If true (and the file uses decorators), the file is left alone, since decorator metadata turns type annotations into values.
+ */
+export function typeImportEdits(sourceFile: ts.SourceFile, checker: ts.TypeChecker, style: TypeImportStyle, emitDecoratorMetadata?: boolean): ts.TextChange[] {
+	if (emitDecoratorMetadata && /@\w/.test(sourceFile.text))
+		return [];
+	const usage = collectUsage(sourceFile, checker);
+	// Unresolved.
+	if (!usage)
+		return [];
+	const result: ts.TextChange[] = [];
+	for (const statement of sourceFile.statements) {
+		let edits: ts.TextChange[] | undefined = [];
+		if (ts.isImportDeclaration(statement))
+			edits = importEdits(statement, sourceFile, checker, usage, style);
+		else if (ts.isExportDeclaration(statement))
+			edits = exportEdits(statement, sourceFile, checker, style);
+		// Unresolved.
+		if (!edits)
+			return [];
+		result.push(...edits);
+	}
+	return result;
+}
+
+/**
+ * True if the symbol an alias resolves to has a meaning as a value (@returns undefined if the alias can not be resolved).
+ */
+function hasValueMeaning(alias: ts.Symbol | undefined, checker: ts.TypeChecker): boolean | undefined {
+	if (!alias)
+		return undefined;
+	const target = isAlias(alias) ? checker.getAliasedSymbol(alias) : alias;
+	if (!target.declarations || target.declarations.length === 0)
+		return undefined;
+	// The binder gives a symbol a valueDeclaration exactly when one of its declarations has a value meaning.
+	return !!target.valueDeclaration;
+}
+
+/**
+ * True if the symbol is declared by an import or export (i.e. it is an alias for a symbol declared elsewhere).
+ */
+function isAlias(symbol: ts.Symbol): boolean {
+	return (symbol.declarations ?? []).some(d => ts.isImportClause(d) || ts.isImportSpecifier(d) || ts.isNamespaceImport(d) || ts.isImportEqualsDeclaration(d) || ts.isExportSpecifier(d) || ts.isNamespaceExport(d));
+}
+
+/**
+ * For each (alias) symbol referenced in the file (outside of import declarations), true if any reference to it is *not* in a type position.
+ * @returns undefined if any name the file references can not be resolved (in which case we can not be sure how any name is used).
+ */
+function collectUsage(sourceFile: ts.SourceFile, checker: ts.TypeChecker): Map<ts.Symbol, boolean> | undefined {
+	const usage = new Map<ts.Symbol, boolean>();
+	let unresolved = false;
+
+	function visit(node: ts.Node) {
+		if (ts.isImportDeclaration(node) || unresolved)
+			return;
+		if (ts.isIdentifier(node)) {
+			let symbol: ts.Symbol | undefined;
+			if (ts.isShorthandPropertyAssignment(node.parent) && node.parent.name === node)
+				symbol = checker.getShorthandAssignmentValueSymbol(node.parent);
+			else if (ts.isExportSpecifier(node.parent) && !node.parent.parent.parent.moduleSpecifier)
+				symbol = checker.getExportSpecifierLocalTargetSymbol(node.parent);
+			else
+				symbol = checker.getSymbolAtLocation(node);
+			if (symbol)
+				usage.set(symbol, (usage.get(symbol) ?? false) || !isTypePosition(node));
+			else if (isReference(node))
+				unresolved = true;
+		}
+		ts.forEachChild(node, visit);
+	}
+
+	visit(sourceFile);
+	return unresolved ? undefined : usage;
+}
+
+/**
+ * True if the identifier refers to something by name (as opposed to being a property of something else, which the checker may legitimately know nothing about, e.g. a property of an 'any').
+ */
+function isReference(node: ts.Identifier): boolean {
+	const parent = node.parent;
+	if ((ts.isPropertyAccessExpression(parent) || ts.isMetaProperty(parent)) && parent.name === node)
+		return false;
+	if (ts.isQualifiedName(parent) && parent.right === node)
+		return false;
+	if ((ts.isPropertyAssignment(parent) || ts.isJsxAttribute(parent)) && parent.name === node)
+		return false;
+	if ((ts.isBindingElement(parent) || ts.isImportSpecifier(parent) || ts.isExportSpecifier(parent)) && parent.propertyName === node)
+		return false;
+	return !(ts.isLabeledStatement(parent) || ts.isBreakOrContinueStatement(parent));
+}
+
+/**
+ * True if the identifier is (the start of) a name in a position where only a type may be referenced.
+ * Anything we do not recognize is conservatively treated as a reference to a value.
+ */
+function isTypePosition(node: ts.Identifier): boolean {
+	let name: ts.Node = node;
+	while ((ts.isQualifiedName(name.parent) && name.parent.left === name) || (ts.isPropertyAccessExpression(name.parent) && name.parent.expression === name))
+		name = name.parent;
+	const parent = name.parent;
+	if (ts.isTypeReferenceNode(parent) || ts.isTypeQueryNode(parent))
+		return true;
+	// e.g. implements Foo (or an interface extending Foo), but *not* a class extending Foo.
+	if (ts.isExpressionWithTypeArguments(parent) && ts.isHeritageClause(parent.parent))
+		return parent.parent.token === ts.SyntaxKind.ImplementsKeyword || ts.isInterfaceDeclaration(parent.parent.parent);
+	return false;
+}
+
+function importEdits(decl: ts.ImportDeclaration, sourceFile: ts.SourceFile, checker: ts.TypeChecker, usage: Map<ts.Symbol, boolean>, style: TypeImportStyle): ts.TextChange[] | undefined {
+	const clause = decl.importClause;
+	if (!clause || clause.isTypeOnly || decl.assertClause)
+		return [];
+	if (!checker.getSymbolAtLocation(decl.moduleSpecifier))
+		return undefined;
+
+	// Is the binding only used as a type (@returns undefined if it can not be resolved).
+	function isTypeOnly(name: ts.Identifier): boolean | undefined {
+		const alias = checker.getSymbolAtLocation(name);
+		const value = hasValueMeaning(alias, checker);
+		if (value === undefined)
+			return undefined;
+		// A name nobody references is left for tspOrganizeImports to deal with.
+		return !value || usage.get(alias!) === false;
+	}
+
+	const named = clause.namedBindings && ts.isNamedImports(clause.namedBindings) ? clause.namedBindings.elements : undefined;
+	const namespace = clause.namedBindings && ts.isNamespaceImport(clause.namedBindings) ? clause.namedBindings : undefined;
+	const defaultType = clause.name ? isTypeOnly(clause.name) : false;
+	const namespaceType = namespace ? isTypeOnly(namespace.name) : false;
+	const namedTypes = named?.map(spec => spec.isTypeOnly || isTypeOnly(spec.name));
+	if (defaultType === undefined || namespaceType === undefined || namedTypes?.some(t => t === undefined))
+		return undefined;
+	const typeSpecs = named?.filter((_, i) => namedTypes![i]) ?? [];
+	const valueSpecs = named?.filter((_, i) => !namedTypes![i]) ?? [];
+	const allTypes = (!clause.name || defaultType) && (!namespace || namespaceType) && valueSpecs.length === 0;
+	const start = decl.getStart(sourceFile);
+	const from = ` from ${decl.moduleSpecifier.getText(sourceFile)}${sourceFile.text.substring(start, decl.end).trimEnd().endsWith(';') ? ';' : ''}`;
+	const newLine = sourceFile.text.includes('\r\n') ? '\r\n' : '\n';
+	const specText = (specs: ts.ImportSpecifier[]) => `{${specs.map(s => s.getText(sourceFile).replace(/^type\s+/, '')).join(', ')}}`;
+
+	if (allTypes) {
+		// Already written the way the author wants it (under verbatimModuleSyntax, it even keeps the side effects of the import).
+		if (!clause.name && !namespace && named!.every(spec => spec.isTypeOnly))
+			return [];
+		// A type-only import can not have both a default and named bindings.
+		if (clause.name && clause.namedBindings) {
+			const bindings = named ? specText(typeSpecs) : clause.namedBindings.getText(sourceFile);
+			return [{span: {start, length: decl.end - start}, newText: `import type ${clause.name.text}${from}${newLine}import type ${bindings}${from}`}];
+		}
+		const edits: ts.TextChange[] = [{span: {start: clause.getStart(sourceFile), length: 0}, newText: 'type '}];
+		// Inline modifiers are not allowed within a type-only import.
+		named?.filter(spec => spec.isTypeOnly).forEach(spec => edits.push(removeTypeModifier(spec, sourceFile)));
+		return edits;
+	}
+	if (style === 'inline' || containsComments(decl, sourceFile)) {
+		// Only named imports can be marked inline, a default or namespace import which is only used as a type stays as it is.
+		return typeSpecs.filter(spec => !spec.isTypeOnly).map(spec => ({span: {start: spec.getStart(sourceFile), length: 0}, newText: 'type '}));
+	}
+	if (typeSpecs.length === 0 && !defaultType)
+		return [];
+	const valueBindings: string[] = [];
+	const typeDecls: string[] = [];
+	if (clause.name)
+		(defaultType ? typeDecls : valueBindings).push(clause.name.text);
+	if (namespace)
+		valueBindings.push(namespace.getText(sourceFile));
+	if (valueSpecs.length > 0)
+		valueBindings.push(specText(valueSpecs));
+	if (typeSpecs.length > 0)
+		typeDecls.push(specText(typeSpecs));
+	const newText = [`import ${valueBindings.join(', ')}${from}`].concat(typeDecls.map(t => `import type ${t}${from}`)).join(newLine);
+	return [{span: {start, length: decl.end - start}, newText}];
+}
+
+function exportEdits(decl: ts.ExportDeclaration, sourceFile: ts.SourceFile, checker: ts.TypeChecker, style: TypeImportStyle): ts.TextChange[] | undefined {
+	if (decl.isTypeOnly || decl.assertClause || !decl.exportClause || !ts.isNamedExports(decl.exportClause))
+		return [];
+	if (decl.moduleSpecifier && !checker.getSymbolAtLocation(decl.moduleSpecifier))
+		return undefined;
+	const elements = decl.exportClause.elements;
+	const types = elements.map(spec => {
+		if (spec.isTypeOnly)
+			return true;
+		const value = hasValueMeaning(checker.getExportSpecifierLocalTargetSymbol(spec), checker);
+		return value === undefined ? undefined : !value;
+	});
+	if (types.some(t => t === undefined))
+		return undefined;
+	const typeSpecs = elements.filter((_, i) => types[i]);
+	const valueSpecs = elements.filter((_, i) => !types[i]);
+	if (elements.every(spec => spec.isTypeOnly))
+		return [];
+	if (valueSpecs.length === 0) {
+		const edits: ts.TextChange[] = [{span: {start: decl.exportClause.getStart(sourceFile), length: 0}, newText: 'type '}];
+		typeSpecs.filter(spec => spec.isTypeOnly).forEach(spec => edits.push(removeTypeModifier(spec, sourceFile)));
+		return edits;
+	}
+	if (style === 'inline' || containsComments(decl, sourceFile))
+		return typeSpecs.filter(spec => !spec.isTypeOnly).map(spec => ({span: {start: spec.getStart(sourceFile), length: 0}, newText: 'type '}));
+	if (typeSpecs.length === 0)
+		return [];
+	const start = decl.getStart(sourceFile);
+	const from = (decl.moduleSpecifier ? ` from ${decl.moduleSpecifier.getText(sourceFile)}` : '') + (sourceFile.text.substring(start, decl.end).trimEnd().endsWith(';') ? ';' : '');
+	const newLine = sourceFile.text.includes('\r\n') ? '\r\n' : '\n';
+	const specText = (specs: ts.ExportSpecifier[]) => `{${specs.map(s => s.getText(sourceFile).replace(/^type\s+/, '')).join(', ')}}`;
+	return [{span: {start, length: decl.end - start}, newText: `export ${specText(valueSpecs)}${from}${newLine}export type ${specText(typeSpecs)}${from}`}];
+}
+
+/**
+ * True if there is a comment anywhere within the node (not counting those before or after it).
+ */
+function containsComments(node: ts.Node, sourceFile: ts.SourceFile): boolean {
+	const start = node.getStart(sourceFile);
+	const scanner = ts.createScanner(sourceFile.languageVersion, false, sourceFile.languageVariant, sourceFile.text, undefined, start, node.end - start);
+	for (let token = scanner.scan(); token !== ts.SyntaxKind.EndOfFileToken; token = scanner.scan()) {
+		if (token === ts.SyntaxKind.SingleLineCommentTrivia || token === ts.SyntaxKind.MultiLineCommentTrivia)
+			return true;
+	}
+	return false;
+}
+
+/**
+ * The edit which removes the inline 'type' modifier (and the whitespace after it) from an import or export specifier.
+ */
+function removeTypeModifier(spec: ts.ImportSpecifier | ts.ExportSpecifier, sourceFile: ts.SourceFile): ts.TextChange {
+	const start = spec.getStart(sourceFile);
+	const modifier = /^type\s+/.exec(sourceFile.text.substring(start, spec.end))![0];
+	return {span: {start, length: modifier.length}, newText: ''};
+}
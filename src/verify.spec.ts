@@ -0,0 +1,37 @@
+import ts from 'typescript';
+import {verifyRoundTrip} from './verify';
+
+describe('verifyRoundTrip', () => {
+	it('should ignore trivia, quotes, parentheses, and property name quoting', () => {
+		const original = `const a = {'b': 0x10, c: "d"}; // Comment\nif ((a.c)) {\n  /* Another\n     comment */\n  console.log(a);}`;
+		const formatted = `const a = { b: 16, c: 'd' }; // Comment\nif (a.c) {\n\t/* Another\n\t   comment */\n\tconsole.log(a);\n}\n`;
+		expect(() => verifyRoundTrip('a.ts', original, formatted, ts.ScriptTarget.Latest)).not.toThrow();
+	});
+
+	it('should report the first node which differs', () => {
+		let error: any;
+		try {
+			verifyRoundTrip('a.ts', 'let x = 1;\nlet y = x + 2;\n', 'let x = 1;\nlet y = x - 2;\n', ts.ScriptTarget.Latest);
+		}
+		catch (err) {
+			error = err;
+		}
+		expect(error.message).toContain('expected PlusToken but found MinusToken');
+		expect(error.loc.start).toEqual({line: 2, column: 11});
+	});
+
+	it('should notice changes which are not expressed by the children of a node', () => {
+		const verify = (original: string, formatted: string) => () => verifyRoundTrip('a.ts', original, formatted, ts.ScriptTarget.Latest);
+		expect(verify('const x = 1;\n', 'let x = 1;\n')).toThrowError(/expected VariableDeclarationList \(const\) but found VariableDeclarationList \(let\)/);
+		expect(verify('import type {A} from \'./a\';\n', 'import {A} from \'./a\';\n')).toThrowError(/expected ImportClause \(type\) but found ImportClause/);
+		expect(verify('import {type A} from \'./a\';\n', 'import {A} from \'./a\';\n')).toThrowError(/ImportSpecifier \(type\)/);
+		expect(verify('export = x;\n', 'export default x;\n')).toThrowError(/expected ExportAssignment \(export =\)/);
+		expect(verify('function* f() {}\n', 'function f() {}\n')).toThrowError(/FunctionDeclaration \(\*\)/);
+		expect(verify('let a = -x;\n', 'let a = +x;\n')).toThrowError(/PrefixUnaryExpression \(-\)/);
+		expect(verify('const x = 1;\nimport type {A} from \'./a\';\n', 'const x = 1;\nimport type { A } from \'./a\';\n')).not.toThrow();
+	});
+
+	it('should report missing comments', () => {
+		expect(() => verifyRoundTrip('a.ts', 'let x = 1; // one\n', 'let x = 1;\n', ts.ScriptTarget.Latest)).toThrowError(/comment \/\/ one is missing/);
+	});
+});
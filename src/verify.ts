@@ -0,0 +1,196 @@
+import ts from 'typescript';
+import {embeddedLanguage} from './embedded';
+import {createError} from './errors';
+
+/**
+ * Human-readable names for each ts.SyntaxKind.
+ * ts.SyntaxKind[kind] is not good enough because the reverse mapping of the enum returns markers such as 'FirstStatement' rather than 'VariableStatement'.
+ */
+const SyntaxKindNames = Object.keys(ts.SyntaxKind).reduce((names, name) => {
+	const kind = (ts.SyntaxKind as any)[name] as number;
+	if (typeof kind === 'number' && (!names.has(kind) || /^(First|Last)/.test(names.get(kind)!)))
+		names.set(kind, name);
+	return names;
+}, new Map<number, string>());
+
+/**
+ * Ensure that formatting did not change the meaning of the code.
+ * Both texts are parsed, and their trees are compared (ignoring trivia, parentheses, quote style, how numbers are written, and whether property names are quoted).
+ * The text of templates containing an embedded language (e.g. css`...`) is also ignored, since formatting that text is the whole point (only their placeholders are compared).
+ * Every comment in the original text must also still be present in the formatted text.
+ * Throws a @see LocatedError (positioned within the original text) describing the first difference found.
+ */
+export function verifyRoundTrip(fileName: string, original: string, formatted: string, languageVersion: ts.ScriptTarget): void {
+	const before = ts.createSourceFile(fileName, original, languageVersion, true);
+	const after = ts.createSourceFile(fileName, formatted, languageVersion, true);
+	compareNodes(before, after, before);
+	compareComments(before, after);
+}
+
+/**
+ * Walk two trees in parallel, throwing at the first node whose 'key' differs.
+ */
+function compareNodes(a: ts.Node, b: ts.Node, sourceFile: ts.SourceFile): void {
+	const keyA = nodeKey(a) + nodeModifiers(a);
+	const keyB = nodeKey(b) + nodeModifiers(b);
+	if (keyA !== keyB)
+		throw createError(`Round-trip verification failed: expected ${keyA} but found ${keyB}`, sourceFile, a.getStart(sourceFile), a.end);
+	const childrenA = nodeChildren(a);
+	const childrenB = nodeChildren(b);
+	const len = Math.min(childrenA.length, childrenB.length);
+	for (let i = 0; i < len; i++)
+		compareNodes(childrenA[i], childrenB[i], sourceFile);
+	if (childrenA.length > len) {
+		const missing = childrenA[len];
+		throw createError(`Round-trip verification failed: ${nodeKey(missing)} is missing`, sourceFile, missing.getStart(sourceFile), missing.end);
+	}
+	if (childrenB.length > len)
+		throw createError(`Round-trip verification failed: unexpected ${nodeKey(childrenB[len])} within ${keyA}`, sourceFile, a.getStart(sourceFile), a.end);
+}
+
+/**
+ * The (non-trivia) children of a node, with any parentheses stripped away.
+ */
+function nodeChildren(node: ts.Node): ts.Node[] {
+	const result: ts.Node[] = [];
+	ts.forEachChild(node, child => {
+		while (ts.isParenthesizedExpression(child) || ts.isParenthesizedTypeNode(child))
+			child = ts.isParenthesizedExpression(child) ? child.expression : child.type;
+		if (ts.isJsxText(child) && child.containsOnlyTriviaWhiteSpaces)
+			return;
+		result.push(child);
+	});
+	return result;
+}
+
+/**
+ * Describes what is semantically relevant about a node (independent of how it was written).
+ */
+function nodeKey(node: ts.Node): string {
+	const kind = SyntaxKindNames.get(node.kind) ?? String(node.kind);
+	if (isPropertyName(node))
+		return `PropertyName '${(node as ts.Identifier | ts.StringLiteral | ts.NumericLiteral).text}'`;
+	switch (node.kind) {
+		case ts.SyntaxKind.Identifier:
+		case ts.SyntaxKind.PrivateIdentifier:
+		case ts.SyntaxKind.StringLiteral:
+		case ts.SyntaxKind.NumericLiteral:
+		case ts.SyntaxKind.BigIntLiteral:
+		case ts.SyntaxKind.RegularExpressionLiteral:
+		case ts.SyntaxKind.NoSubstitutionTemplateLiteral:
+		case ts.SyntaxKind.TemplateHead:
+		case ts.SyntaxKind.TemplateMiddle:
+		case ts.SyntaxKind.TemplateTail:
+			if (isEmbedded(node as ts.TemplateLiteralLikeNode))
+				return kind;
+			return `${kind} '${(node as ts.LiteralLikeNode).text}'`;
+		case ts.SyntaxKind.JsxText:
+			return `${kind} '${(node as ts.JsxText).text.replace(/\s+/g, ' ').trim()}'`;
+		default:
+			return kind;
+	}
+}
+
+/**
+ * Describes what is semantically relevant about a node, but is not a child of the node (e.g. 'const' vs 'let', or 'import type' vs 'import').
+ */
+function nodeModifiers(node: ts.Node): string {
+	const details: string[] = [];
+	if (ts.isVariableDeclarationList(node))
+		details.push(ts.tokenToString(node.getFirstToken()!.kind) ?? '');
+	if ((ts.isImportClause(node) || ts.isImportSpecifier(node) || ts.isExportSpecifier(node) || ts.isExportDeclaration(node) || ts.isImportEqualsDeclaration(node)) && node.isTypeOnly)
+		details.push('type');
+	if (ts.isExportAssignment(node))
+		details.push(node.isExportEquals ? 'export =' : 'export default');
+	if (ts.isImportTypeNode(node) && node.isTypeOf)
+		details.push('typeof');
+	if (ts.isPrefixUnaryExpression(node) || ts.isPostfixUnaryExpression(node) || ts.isTypeOperatorNode(node))
+		details.push(ts.tokenToString(node.operator) ?? '');
+	if ((node as { asteriskToken?: ts.Node }).asteriskToken)
+		details.push('*');
+	if ((node as { questionToken?: ts.Node }).questionToken)
+		details.push('?');
+	if ((node as { exclamationToken?: ts.Node }).exclamationToken)
+		details.push('!');
+	return details.length > 0 ? ` (${details.join(' ')})` : '';
+}
+
+/**
+ * True if the part of a template belongs to a template containing an embedded language.
+ */
+function isEmbedded(node: ts.TemplateLiteralLikeNode): boolean {
+	let template: ts.Node = node;
+	if (ts.isTemplateHead(node))
+		template = node.parent;
+	else if (ts.isTemplateMiddle(node) || ts.isTemplateTail(node))
+		template = node.parent.parent;
+	return !!embeddedLanguage(template as ts.TemplateLiteral, node.getSourceFile());
+}
+
+/**
+ * True if the node is the name of a property (in which case it does not matter if it is an identifier, a string, or a number).
+ */
+function isPropertyName(node: ts.Node): boolean {
+	if (!(ts.isIdentifier(node) || ts.isStringLiteral(node) || ts.isNumericLiteral(node)))
+		return false;
+	const parent = node.parent;
+	switch (parent?.kind) {
+		case ts.SyntaxKind.PropertyAssignment:
+		case ts.SyntaxKind.PropertySignature:
+		case ts.SyntaxKind.PropertyDeclaration:
+		case ts.SyntaxKind.MethodDeclaration:
+		case ts.SyntaxKind.MethodSignature:
+		case ts.SyntaxKind.GetAccessor:
+		case ts.SyntaxKind.SetAccessor:
+		case ts.SyntaxKind.EnumMember:
+			return (parent as ts.NamedDeclaration).name === node;
+		default:
+			return false;
+	}
+}
+
+/**
+ * Every comment in the original must appear in the formatted text (although it may have been re-indented).
+ */
+function compareComments(before: ts.SourceFile, after: ts.SourceFile): void {
+	const remaining = new Map<string, ts.CommentRange[]>();
+	collectComments(before).forEach(c => {
+		const key = commentKey(before.text, c);
+		remaining.set(key, (remaining.get(key) ?? []).concat(c));
+	});
+	collectComments(after).forEach(c => {
+		const key = commentKey(after.text, c);
+		const ranges = remaining.get(key);
+		if (ranges) {
+			ranges.shift();
+			if (ranges.length === 0)
+				remaining.delete(key);
+		}
+	});
+	if (remaining.size > 0) {
+		const missing = Array.from(remaining.values()).flat().sort((a, b) => a.pos - b.pos)[0];
+		const txt = before.text.substring(missing.pos, missing.end).split(/\r?\n/)[0];
+		throw createError(`Round-trip verification failed: comment ${txt} is missing`, before, missing.pos, missing.end);
+	}
+}
+
+/**
+ * All the comments in a source file (including those attached to tokens, which is why we walk getChildren rather than forEachChild).
+ */
+function collectComments(sourceFile: ts.SourceFile): ts.CommentRange[] {
+	const comments = new Map<number, ts.CommentRange>();
+	const text = sourceFile.text;
+
+	function visit(node: ts.Node) {
+		ts.getLeadingCommentRanges(text, node.pos)?.forEach(c => comments.set(c.pos, c));
+		ts.getTrailingCommentRanges(text, node.end)?.forEach(c => comments.set(c.pos, c));
+		node.getChildren(sourceFile).forEach(visit);
+	}
+
+	visit(sourceFile);
+	return Array.from(comments.values());
+}
+
+function commentKey(text: string, comment: ts.CommentRange): string {
+	return text.substring(comment.pos, comment.end).split(/\r?\n/).map(l => l.trim()).join('\n');
+}